@@ -0,0 +1,45 @@
+#!/usr/bin/env bun
+/**
+ * Dump the rubric tree seen in saved organizations as JSON
+ * Usage: bun scripts/dump-rubrics.ts [--stdout true]
+ * Writes data/parsed/rubrics/rubric-tree-{timestamp}.json, or prints the tree with --stdout true.
+ */
+
+import { ScraperRepository } from '../src/repos/index.js';
+import { buildRubricTree, mapRubric } from '../src/scraper/rubrics.js';
+import type { Rubric } from '../src/types/index.js';
+import { Logger, parseArgs } from '../src/utils.js';
+
+const args = parseArgs(process.argv.slice(2), {
+  stdout: 'false',
+});
+
+async function main() {
+  const logger = new Logger();
+  const repository = new ScraperRepository(logger);
+
+  const rubrics = (await repository.collectRubrics())
+    .map(mapRubric)
+    .filter((rubric): rubric is Rubric => rubric !== undefined);
+  const withoutId = rubrics.filter((rubric) => !rubric.id).length;
+  const tree = buildRubricTree(rubrics);
+  const rubricCount = new Set(rubrics.map((rubric) => rubric.id).filter(Boolean)).size;
+
+  if (withoutId > 0) {
+    logger.warn(`${withoutId} rubric entries without an ID (older files) were left out`);
+  }
+  if (args.stdout === 'true') {
+    console.log(JSON.stringify(tree, null, 2));
+    return;
+  }
+  if (tree.length === 0) {
+    logger.warn('No rubrics with IDs found in saved organizations');
+    return;
+  }
+  await repository.saveRubricTree(tree, rubricCount);
+}
+
+main().catch((error) => {
+  console.error('❌', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+#!/usr/bin/env bun
+/**
+ * Convert displayed review dates in saved full-with-reviews data to ISO 8601
+ * Usage: bun scripts/normalize-review-dates.ts [--language ru|en|kk|ar]
+ */
+
+import { ScraperRepository } from '../src/repos/index.js';
+import { isSupportedLanguage } from '../src/scraper/locale.js';
+import { normalizeReviewDate } from '../src/scraper/review-dates.js';
+import { Logger, parseArgs } from '../src/utils.js';
+
+const args = parseArgs(process.argv.slice(2), {
+  language: 'ru',
+});
+
+if (!isSupportedLanguage(args.language)) {
+  console.error(`❌ Invalid language "${args.language}". Use: ru, en, kk or ar`);
+  process.exit(1);
+}
+const fallbackLanguage = args.language;
+
+async function main() {
+  const logger = new Logger();
+  const repository = new ScraperRepository(logger);
+
+  let unparsed = 0;
+  // Files record the language they were scraped in; older ones fall back to --language.
+  // Relative dates ("3 дня назад") count back from when the file was scraped.
+  const result = await repository.updateSavedReviews((review, language, fetchedAt) => {
+    const normalized = normalizeReviewDate(review, language ?? fallbackLanguage, fetchedAt);
+    if (normalized.dateUnparsed) unparsed++;
+    return normalized;
+  });
+
+  logger.success(
+    `Normalized ${result.reviewsUpdated} review dates in ${result.filesUpdated} files`,
+  );
+  if (unparsed > 0) {
+    logger.warn(`${unparsed} dates could not be parsed and are flagged with dateUnparsed`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
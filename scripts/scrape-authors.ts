@@ -0,0 +1,96 @@
+#!/usr/bin/env bun
+/**
+ * Crawl reviewers' public review history across organizations
+ * Usage: bun scripts/scrape-authors.ts [--author-ids id1,id2] [--max-authors 50] [--max-reviews 200]
+ * Without --author-ids, authors are taken from saved full-with-reviews review files,
+ * most frequent first, skipping authors that were already crawled.
+ */
+
+import { DEFAULT_DELAYS, DEFAULT_LIMITS, RATE_LIMIT } from '../src/config.js';
+import { REVIEWS_PATHS, ScraperRepository } from '../src/repos/index.js';
+import { scrapeAuthors } from '../src/scraper/index.js';
+import { isSupportedLanguage, resolveLocation } from '../src/scraper/locale.js';
+import { loadProxyList } from '../src/scraper/proxy.js';
+import type { AuthorScraperOptions, Language } from '../src/types/index.js';
+import { Logger, parseArgs } from '../src/utils.js';
+
+const args = parseArgs(process.argv.slice(2), {
+  'author-ids': '',
+  'from-reviews': REVIEWS_PATHS.dir,
+  'max-authors': String(DEFAULT_LIMITS.maxAuthors),
+  'max-reviews': String(DEFAULT_LIMITS.maxReviewsPerAuthor),
+  domain: '',
+  city: '',
+  language: '',
+  delay: String(DEFAULT_DELAYS.betweenRequests),
+  rpm: String(RATE_LIMIT.requestsPerMinute),
+  'max-retries': String(DEFAULT_LIMITS.maxRetries),
+  concurrency: String(DEFAULT_LIMITS.concurrency),
+  proxies: '',
+  headless: 'true',
+});
+
+if (args.language && !isSupportedLanguage(args.language)) {
+  console.error(`❌ Invalid language "${args.language}". Use: ru, en, kk or ar`);
+  process.exit(1);
+}
+
+async function resolveAuthorIds(repository: ScraperRepository, logger: Logger): Promise<string[]> {
+  const maxAuthors = Number(args['max-authors']);
+  if (args['author-ids']) {
+    return args['author-ids']
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean)
+      .slice(0, maxAuthors);
+  }
+
+  const collected = await repository.collectReviewAuthorIds(args['from-reviews']);
+  const alreadyScraped = await repository.getScrapedAuthorIds();
+  const pending = collected.filter((id) => !alreadyScraped.has(id));
+  logger.info(
+    `Found ${collected.length} authors in ${args['from-reviews']}, ${collected.length - pending.length} already crawled`,
+  );
+  return pending.slice(0, maxAuthors);
+}
+
+async function main() {
+  const logger = new Logger();
+  const repository = new ScraperRepository(logger);
+
+  const authorIds = await resolveAuthorIds(repository, logger);
+  if (authorIds.length === 0) {
+    logger.warn('No authors to crawl');
+    return;
+  }
+
+  const proxies = await loadProxyList(args.proxies || undefined);
+  const options: AuthorScraperOptions = {
+    authorIds,
+    maxReviewsPerAuthor: Number(args['max-reviews']),
+    ...(args.domain && { domain: args.domain }),
+    ...(args.city && { city: args.city }),
+    ...(args.language && { language: args.language as Language }),
+    delayMs: Number(args.delay),
+    requestsPerMinute: Number(args.rpm),
+    maxRetries: Number(args['max-retries']),
+    concurrency: Number(args.concurrency),
+    headless: args.headless === 'true',
+    ...(proxies.length > 0 && { proxies }),
+  };
+
+  const startTime = Date.now();
+  const { authors, rawData } = await scrapeAuthors(options);
+  const responseTime = Date.now() - startTime;
+  logger.info(`Total time: ${(responseTime / 1000).toFixed(1)}s`);
+
+  await repository.saveAuthors(authors, rawData, responseTime, resolveLocation(options));
+
+  const reviewCount = authors.reduce((sum, author) => sum + author.reviews.length, 0);
+  logger.success(`Crawled ${authors.length} authors with ${reviewCount} reviews`);
+}
+
+main().catch((error) => {
+  console.error('❌', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
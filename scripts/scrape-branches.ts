@@ -0,0 +1,111 @@
+#!/usr/bin/env bun
+/**
+ * Enumerate all branches of a chain organization and scrape them as one batch
+ * Usage: bun scripts/scrape-branches.ts (--firm-id <branch firm ID> | --org-id <chain org ID>)
+ *          [--cities moscow,spb | --cities all] [--mode full|full-with-reviews] [--max-records 500]
+ * Writes the branch organization files like scrape.ts plus a chain manifest in data/parsed/chains.
+ */
+
+import { DEFAULT_DELAYS, DEFAULT_LIMITS, RATE_LIMIT } from '../src/config.js';
+import { ScraperRepository } from '../src/repos/index.js';
+import { scrapeChainBranches } from '../src/scraper/index.js';
+import { isSupportedDomain, isSupportedLanguage, resolveLocation } from '../src/scraper/locale.js';
+import { loadProxyList } from '../src/scraper/proxy.js';
+import type { BranchScraperOptions, Language, ScrapingMode } from '../src/types/index.js';
+import { Logger, parseArgs } from '../src/utils.js';
+
+const args = parseArgs(process.argv.slice(2), {
+  'firm-id': '',
+  'org-id': '',
+  cities: '',
+  mode: 'full',
+  'max-records': '500',
+  'max-reviews': String(DEFAULT_LIMITS.maxReviewsPerOrg),
+  domain: '',
+  city: '',
+  language: '',
+  delay: String(DEFAULT_DELAYS.betweenRequests),
+  rpm: String(RATE_LIMIT.requestsPerMinute),
+  'max-retries': String(DEFAULT_LIMITS.maxRetries),
+  concurrency: String(DEFAULT_LIMITS.concurrency),
+  proxies: '',
+  headless: 'true',
+});
+
+function validateArgs(): void {
+  if (!args['firm-id'] === !args['org-id']) {
+    console.error('❌ Provide exactly one of --firm-id or --org-id');
+    process.exit(1);
+  }
+  if (!['full', 'full-with-reviews'].includes(args.mode)) {
+    console.error(`❌ Invalid mode "${args.mode}". Use: full or full-with-reviews`);
+    process.exit(1);
+  }
+  if (args.domain && !isSupportedDomain(args.domain)) {
+    console.error(`❌ Invalid domain "${args.domain}"`);
+    process.exit(1);
+  }
+  if (args.language && !isSupportedLanguage(args.language)) {
+    console.error(`❌ Invalid language "${args.language}". Use: ru, en, kk or ar`);
+    process.exit(1);
+  }
+}
+
+async function main() {
+  validateArgs();
+  const logger = new Logger();
+  const repository = new ScraperRepository(logger);
+
+  const cities = args.cities
+    .split(',')
+    .map((city) => city.trim())
+    .filter(Boolean);
+  const proxies = await loadProxyList(args.proxies || undefined);
+  const scrapingMode = args.mode as ScrapingMode;
+  const options: BranchScraperOptions = {
+    branches: {
+      ...(args['firm-id'] && { firmId: args['firm-id'] }),
+      ...(args['org-id'] && { orgId: args['org-id'] }),
+      ...(cities.length > 0 && { cities }),
+    },
+    ...(args.domain && { domain: args.domain }),
+    ...(args.city && { city: args.city }),
+    ...(args.language && { language: args.language as Language }),
+    scrapingMode,
+    maxRecords: Number(args['max-records']),
+    maxReviewsPerOrg: Number(args['max-reviews']),
+    delayMs: Number(args.delay),
+    requestsPerMinute: Number(args.rpm),
+    maxRetries: Number(args['max-retries']),
+    concurrency: Number(args.concurrency),
+    headless: args.headless === 'true',
+    ...(proxies.length > 0 && { proxies }),
+  };
+
+  const startTime = Date.now();
+  const { organizations, rawData, chain } = await scrapeChainBranches(options);
+  const responseTime = Date.now() - startTime;
+  logger.info(`Total time: ${(responseTime / 1000).toFixed(1)}s`);
+
+  if (!chain) {
+    process.exit(1);
+  }
+
+  const location = resolveLocation(options);
+  const prefix = scrapingMode === 'full-with-reviews' ? 'full-with-reviews' : 'full';
+  const query = `chain-${chain.orgId}`;
+  await repository.saveOrganizations(query, responseTime, organizations, rawData, prefix, location);
+  if (prefix === 'full-with-reviews') {
+    await repository.saveReviews(query, responseTime, organizations, location);
+  }
+  await repository.saveChainManifest(chain, responseTime, location);
+
+  logger.success(
+    `Chain ${chain.orgName ?? chain.orgId}: ${chain.scrapedFirmIds.length} of ${chain.firmIds.length} branches scraped`,
+  );
+}
+
+main().catch((error) => {
+  console.error('❌', error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});
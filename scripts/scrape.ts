@@ -3,12 +3,64 @@
 // Stage 2: bun scripts/scrape.ts --from-list data/parsed/list/list---2026-01-23T14-02-43-026Z.json --mode full
 //
 // Or single org: bun scripts/scrape.ts --org-id 70000001044609041 --mode full
+// Other cities: bun scripts/scrape.ts --query "кальян" --city spb --mode list
+// Other countries: bun scripts/scrape.ts --query "cafe" --domain 2gis.ae --language en --mode list
+// (stage 2 picks up the domain/city/language recorded in the list file unless given explicitly)
+// Tiled census: bun scripts/scrape.ts --query "кафе" --mode list --max-records 10000 --bbox 37.35,55.55,37.85,55.92
+// Proxies: bun scripts/scrape.ts --query "кафе" --concurrency 4 --proxies proxies.txt (or SCRAPER_PROXIES env)
+// Mobile visitor: bun scripts/scrape.ts --org-id 70000001044609041 --fingerprint mobile-android
+// Rotate profiles: --fingerprint desktop-chrome,desktop-chrome-mac --rotate-fingerprints true
+// Review comment threads: --mode full-with-reviews --comments true --max-comments 200
+// Negative reviews first: --mode full-with-reviews --review-sort rating-asc --review-ratings 1,2
+// Review photo files: --mode full-with-reviews --review-photos true --download-review-photos true
+// Organization photo albums: --mode full --photos true --download-photos true --max-photo-kb 2048
+// Search filters: --query "кафе" --open-now true --min-rating 4.5 --attributes wifi --sort rating
+// Nearest first: --query "аптека" --sort distance --near 37.6173,55.7558
+// Batch of queries merged into one list: --queries-file queries.txt --mode list
+// Whole rubric instead of a query: bun scripts/scrape.ts --rubric 164 --mode list (or --rubric "Кафе")
 // Modes: list (basic data only), full (detailed data), full-with-reviews (detailed data + reviews)
 
-import { DEFAULT_DELAYS, DEFAULT_LIMITS } from '../src/config.js';
+import {
+  DEFAULT_DELAYS,
+  DEFAULT_FINGERPRINT,
+  DEFAULT_LIMITS,
+  PHOTO_API,
+  RATE_LIMIT,
+} from '../src/config.js';
 import { ScraperRepository } from '../src/repos/index.js';
-import { scrapeSearchResults } from '../src/scraper/index.js';
-import type { ScrapedOrganization, ScraperOptions } from '../src/types/index.js';
+import { loadQueryList } from '../src/scraper/batch.js';
+import { loadFingerprintProfiles, resolveFingerprints } from '../src/scraper/fingerprint.js';
+import { scrapeSearchBatch, scrapeSearchResults } from '../src/scraper/index.js';
+import {
+  isSupportedDomain,
+  isSupportedLanguage,
+  resolveLocation,
+  SITE_DOMAINS,
+  UI_STRINGS,
+} from '../src/scraper/locale.js';
+import { loadProxyList } from '../src/scraper/proxy.js';
+import { parseReviewRatings, parseReviewSort } from '../src/scraper/review-query.js';
+import { findRubricByName, mapRubric } from '../src/scraper/rubrics.js';
+import {
+  hasSearchFilters,
+  parseMinRating,
+  parsePoint,
+  parseSearchSort,
+  searchFilterTokens,
+} from '../src/scraper/search-filters.js';
+import { parseBoundingBox, parsePolygon, polygonBoundingBox } from '../src/scraper/tiling.js';
+import type {
+  Language,
+  ProxyConfig,
+  ReviewQuery,
+  Rubric,
+  ScrapedOrganization,
+  ScrapeLocation,
+  ScraperOptions,
+  SearchFilters,
+  SearchMetadata,
+  TilingArea,
+} from '../src/types/index.js';
 import { Logger, parseArgs } from '../src/utils.js';
 
 function displayOrganization(org: ScrapedOrganization): void {
@@ -25,14 +77,124 @@ function displayOrganization(org: ScrapedOrganization): void {
   console.log(`  Website: ${org.website ?? '-'}`);
   if (org.schedule) console.log(`  Schedule: ${org.schedule}`);
   console.log(`  Rating: ${org.rating ?? '-'} (${org.reviewCount ?? 0} reviews)`);
-  console.log(`  Rubrics: ${org.rubrics.join(', ')}`);
+  console.log(
+    `  Rubrics: ${org.rubrics.map((r) => (r.primary ? `${r.name} (primary)` : r.name)).join(', ')}`,
+  );
   if (org.type) console.log(`  Type: ${org.type}`);
+  if (org.matchedQueries) console.log(`  Matched queries: ${org.matchedQueries.join(', ')}`);
+}
+
+function validateLocationOptions(options: ScraperOptions): void {
+  if (options.domain && !isSupportedDomain(options.domain)) {
+    console.error(
+      `Invalid domain "${options.domain}". Must be one of: ${Object.keys(SITE_DOMAINS).join(', ')}`,
+    );
+    process.exit(1);
+  }
+  if (options.language && !isSupportedLanguage(options.language)) {
+    console.error(
+      `Invalid language "${options.language}". Must be one of: ${Object.keys(UI_STRINGS).join(', ')}`,
+    );
+    process.exit(1);
+  }
+}
+
+// Comment threads and incremental sync are part of review scraping
+function validateReviewOptions(options: ScraperOptions): void {
+  if (options.scrapingMode === 'full-with-reviews') {
+    const sort = options.reviewQuery?.sort;
+    if (options.incrementalReviews && sort && sort !== 'newest') {
+      console.error('--incremental always syncs newest first, drop --review-sort');
+      process.exit(1);
+    }
+    return;
+  }
+  if (options.includeComments) {
+    console.error('--comments requires --mode full-with-reviews');
+    process.exit(1);
+  }
+  if (options.incrementalReviews) {
+    console.error('--incremental requires --mode full-with-reviews');
+    process.exit(1);
+  }
+  if (options.reviewQuery) {
+    console.error(
+      '--review-sort/--review-ratings/--review-photos require --mode full-with-reviews',
+    );
+    process.exit(1);
+  }
+}
+
+// Album photos are read from the firm page, which list mode never opens
+function validatePhotoOptions(options: ScraperOptions): void {
+  if (options.includePhotos && options.scrapingMode === 'list') {
+    console.error('--photos requires --mode full or full-with-reviews');
+    process.exit(1);
+  }
+  if (options.downloadPhotos && !options.includePhotos) {
+    console.error('--download-photos requires --photos true');
+    process.exit(1);
+  }
+  if (!Number.isInteger(options.maxPhotosPerOrg) || (options.maxPhotosPerOrg ?? 0) < 1) {
+    console.error('--max-photos must be a positive integer');
+    process.exit(1);
+  }
+  if (!((options.maxPhotoBytes ?? 0) > 0)) {
+    console.error('--max-photo-kb must be a positive number');
+    process.exit(1);
+  }
+}
+
+// Filters are part of the search URL; distance sorting needs its point
+function validateSearchOptions(options: ScraperOptions): void {
+  const filters = options.searchFilters;
+  if (!filters) return;
+  if (
+    (!options.query && !options.queries) ||
+    options.rubricId ||
+    options.orgId ||
+    options.fromList
+  ) {
+    console.error(
+      'Search filters (--open-now, --open-24h, --min-rating, --has-photos, --attributes, --sort, --near) require --query or --queries-file',
+    );
+    process.exit(1);
+  }
+  if ((filters.sort === 'distance') !== Boolean(filters.near)) {
+    console.error('--sort distance and --near lon,lat must be used together');
+    process.exit(1);
+  }
+  if (filters.near && options.tiling) {
+    console.error('--near cannot be combined with --bbox/--polygon');
+    process.exit(1);
+  }
+}
+
+// A batch is merged into one list file, so it only runs in list mode
+function validateBatchOptions(options: ScraperOptions): void {
+  if (!options.queries) return;
+  if (options.queries.length === 0) {
+    console.error('--queries-file contains no queries');
+    process.exit(1);
+  }
+  if (options.scrapingMode !== 'list') {
+    console.error('--queries-file requires --mode list');
+    process.exit(1);
+  }
 }
 
 function validateOptions(options: ScraperOptions): void {
-  // Validate that either query, orgId, or fromList is provided
-  if (!options.query && !options.orgId && !options.fromList) {
-    console.error('Either --query, --org-id, or --from-list must be provided');
+  // Validate that either query, queries, rubric, orgId, or fromList is provided
+  if (
+    !options.query &&
+    !options.queries &&
+    !options.rubricId &&
+    !options.orgId &&
+    !options.fromList
+  ) {
+    console.error(
+      'Either --query, --queries-file, --rubric, --org-id, or --from-list must be provided',
+    );
     process.exit(1);
   }
 
@@ -50,6 +212,27 @@ function validateOptions(options: ScraperOptions): void {
     process.exit(1);
   }
 
+  // Validate domain and language
+  validateLocationOptions(options);
+
+  // Validate concurrency
+  if (!Number.isInteger(options.concurrency) || (options.concurrency ?? 0) < 1) {
+    console.error('--concurrency must be a positive integer');
+    process.exit(1);
+  }
+
+  // Validate review-only options
+  validateReviewOptions(options);
+  validatePhotoOptions(options);
+  validateSearchOptions(options);
+  validateBatchOptions(options);
+
+  // Tiled search only applies to search queries
+  if (options.tiling && !options.query && !options.queries) {
+    console.error('--bbox/--polygon require --query or --queries-file');
+    process.exit(1);
+  }
+
   // fromList requires full or full-with-reviews mode
   if (options.fromList && options.scrapingMode === 'list') {
     console.error('--from-list requires --mode full or full-with-reviews');
@@ -57,15 +240,151 @@ function validateOptions(options: ScraperOptions): void {
   }
 }
 
-async function getQueryForSaving(
+function parseTilingArea(bbox: string, polygon: string): TilingArea | undefined {
+  if (!bbox && !polygon) return undefined;
+  try {
+    const ring = polygon ? parsePolygon(polygon) : undefined;
+    return {
+      bbox: bbox ? parseBoundingBox(bbox) : polygonBoundingBox(ring ?? []),
+      ...(ring && { polygon: ring }),
+    };
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+function parseReviewQuery(
+  sort: string,
+  ratings: string,
+  withPhotos: boolean,
+): ReviewQuery | undefined {
+  if (!sort && !ratings && !withPhotos) return undefined;
+  try {
+    return {
+      ...(sort && { sort: parseReviewSort(sort) }),
+      ...(ratings && { ratings: parseReviewRatings(ratings) }),
+      ...(withPhotos && { withPhotos }),
+    };
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+// What to scrape: a list file, one organization, a rubric, a batch of queries or a search query
+async function resolveInput(
+  args: Record<'from-list' | 'org-id' | 'rubric' | 'queries-file' | 'query', string>,
+): Promise<Pick<ScraperOptions, 'fromList' | 'orgId' | 'rubricId' | 'queries' | 'query'>> {
+  if (args['from-list']) return { fromList: args['from-list'] };
+  if (args['org-id']) return { orgId: args['org-id'] };
+  if (args.rubric) {
+    return { rubricId: await resolveRubricId(args.rubric, new ScraperRepository(new Logger())) };
+  }
+  if (args['queries-file']) return { queries: await loadQueries(args['queries-file']) };
+  return { query: args.query };
+}
+
+async function loadQueries(filePath: string): Promise<string[]> {
+  try {
+    return await loadQueryList(filePath);
+  } catch (error) {
+    console.error(
+      `Failed to read queries file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    process.exit(1);
+  }
+}
+
+type SearchFilterArgs = Record<
+  'open-now' | 'open-24h' | 'min-rating' | 'has-photos' | 'attributes' | 'sort' | 'near',
+  string
+>;
+
+function parseSearchFilters(args: SearchFilterArgs): SearchFilters | undefined {
+  try {
+    const attributes = args.attributes
+      .split(',')
+      .map((a) => a.trim())
+      .filter(Boolean);
+    const filters: SearchFilters = {
+      ...(args['open-now'] === 'true' && { openNow: true }),
+      ...(args['open-24h'] === 'true' && { open24h: true }),
+      ...(args['min-rating'] && { minRating: parseMinRating(args['min-rating']) }),
+      ...(args['has-photos'] === 'true' && { withPhotos: true }),
+      ...(attributes.length > 0 && { attributes }),
+      ...(args.sort && { sort: parseSearchSort(args.sort) }),
+      ...(args.near && { near: parsePoint(args.near) }),
+    };
+    return hasSearchFilters(filters) ? filters : undefined;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+// Rubric ID as given, or looked up by name among rubrics of saved organizations
+async function resolveRubricId(value: string, repository: ScraperRepository): Promise<string> {
+  if (/^\d+$/.test(value)) return value;
+  const rubrics = (await repository.collectRubrics())
+    .map(mapRubric)
+    .filter((rubric): rubric is Rubric => rubric !== undefined);
+  const rubric = findRubricByName(rubrics, value);
+  if (!rubric?.id) {
+    console.error(
+      `Unknown rubric "${value}". Pass a rubric ID, or scrape firms of that rubric first (see scripts/dump-rubrics.ts)`,
+    );
+    process.exit(1);
+  }
+  return rubric.id;
+}
+
+async function loadProxies(filePath: string): Promise<ProxyConfig[]> {
+  try {
+    return await loadProxyList(filePath || undefined);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+async function loadFingerprints(
+  list: string,
+  filePath: string,
+): Promise<Pick<ScraperOptions, 'fingerprints' | 'fingerprintProfiles'>> {
+  const fingerprints = list
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  try {
+    const custom = filePath ? await loadFingerprintProfiles(filePath) : undefined;
+    resolveFingerprints(fingerprints, custom);
+    return { fingerprints, ...(custom && { fingerprintProfiles: custom }) };
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+async function getSaveContext(
   repository: ScraperRepository,
   options: ScraperOptions,
-): Promise<string> {
+): Promise<{ query: string; location: ScrapeLocation }> {
   if (options.fromList) {
     const listData = await repository.readListFile(options.fromList);
-    return listData.query || 'from-list';
+    return {
+      query: listData.query || 'from-list',
+      location: resolveLocation(options, listData),
+    };
   }
-  return options.query || 'unknown';
+  return {
+    query:
+      options.query ||
+      (options.rubricId && `rubric-${options.rubricId}`) ||
+      (options.queries && 'batch') ||
+      'unknown',
+    location: resolveLocation(options),
+  };
 }
 
 async function saveResults(
@@ -75,6 +394,7 @@ async function saveResults(
   organizations: ScrapedOrganization[],
   // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
   rawData: any[],
+  search?: SearchMetadata,
 ): Promise<void> {
   if (options.orgId) {
     // Save single organization by ID
@@ -87,14 +407,22 @@ async function saveResults(
         org,
         raw,
         options.scrapingMode === 'full-with-reviews',
+        resolveLocation(options),
       );
     }
   } else {
-    const query = await getQueryForSaving(repository, options);
+    const { query, location } = await getSaveContext(repository, options);
     if (options.scrapingMode === 'list') {
-      await repository.saveListData(query, responseTime, organizations, rawData);
+      await repository.saveListData(query, responseTime, organizations, rawData, location, search);
     } else if (options.scrapingMode === 'full') {
-      await repository.saveOrganizations(query, responseTime, organizations, rawData, 'full');
+      await repository.saveOrganizations(
+        query,
+        responseTime,
+        organizations,
+        rawData,
+        'full',
+        location,
+      );
     } else if (options.scrapingMode === 'full-with-reviews') {
       await repository.saveOrganizations(
         query,
@@ -102,59 +430,141 @@ async function saveResults(
         organizations,
         rawData,
         'full-with-reviews',
+        location,
       );
-      await repository.saveReviews(query, responseTime, organizations);
+      await repository.saveReviews(query, responseTime, organizations, location);
     }
   }
 }
 
+function logStartup(logger: Logger, options: ScraperOptions): void {
+  if (options.fromList) {
+    logger.info(`Scraping from list file: ${options.fromList}`);
+  } else if (options.orgId) {
+    logger.info(`Scraping 2GIS organization ID: ${options.orgId}`);
+  } else if (options.rubricId) {
+    const location = resolveLocation(options);
+    logger.info(`Scraping ${location.domain} rubric ${options.rubricId} in ${location.city}`);
+  } else if (options.queries) {
+    const location = resolveLocation(options);
+    logger.info(
+      `Scraping ${location.domain} for ${options.queries.length} queries in ${location.city}: ${options.queries.join(', ')}`,
+    );
+  } else {
+    const location = resolveLocation(options);
+    const filters = options.searchFilters
+      ? ` with filters ${searchFilterTokens(options.searchFilters).join(';')}`
+      : '';
+    logger.info(`Scraping ${location.domain} for "${options.query}" in ${location.city}${filters}`);
+  }
+
+  const reviews =
+    options.scrapingMode === 'full-with-reviews'
+      ? `, reviews=${options.maxReviewsPerOrg}${options.includeComments ? `, comments=${options.maxCommentsPerOrg}` : ''}${options.incrementalReviews ? ', incremental' : ''}`
+      : '';
+  logger.info(
+    `Configuration: delay=${options.delayMs}ms, rpm=${options.requestsPerMinute}, maxRecords=${options.maxRecords}, concurrency=${options.concurrency}, proxies=${options.proxies?.length ?? 0}, fingerprints=${options.fingerprints?.join('|')}, retries=${options.maxRetries}, mode=${options.scrapingMode}${reviews}`,
+  );
+}
+
 async function main() {
   const args = parseArgs(process.argv.slice(2), {
     query: 'кальян',
     'org-id': '',
     'from-list': '',
+    rubric: '',
+    'queries-file': '',
+    domain: '',
+    city: '',
+    language: '',
+    bbox: '',
+    polygon: '',
+    'open-now': 'false',
+    'open-24h': 'false',
+    'min-rating': '',
+    'has-photos': 'false',
+    attributes: '',
+    sort: '',
+    near: '',
     delay: String(DEFAULT_DELAYS.betweenRequests),
     'max-records': String(DEFAULT_LIMITS.maxRecords),
     'max-retries': String(DEFAULT_LIMITS.maxRetries),
     headless: 'true',
     mode: 'full',
     'max-reviews': String(DEFAULT_LIMITS.maxReviewsPerOrg),
+    comments: 'false',
+    'max-comments': String(DEFAULT_LIMITS.maxCommentsPerOrg),
+    incremental: 'false',
+    'review-sort': '',
+    'review-ratings': '',
+    'review-photos': 'false',
+    'download-review-photos': 'false',
+    photos: 'false',
+    'max-photos': String(PHOTO_API.maxPerOrg),
+    'download-photos': 'false',
+    'max-photo-kb': String(PHOTO_API.maxFileBytes / 1024),
+    concurrency: String(DEFAULT_LIMITS.concurrency),
+    rpm: String(RATE_LIMIT.requestsPerMinute),
+    proxies: '',
+    fingerprint: DEFAULT_FINGERPRINT,
+    'rotate-fingerprints': 'false',
+    'fingerprints-file': '',
   });
 
+  const tiling = parseTilingArea(args.bbox, args.polygon);
+  const searchFilters = parseSearchFilters(args);
+  const reviewQuery = parseReviewQuery(
+    args['review-sort'],
+    args['review-ratings'],
+    args['review-photos'] === 'true',
+  );
+  const proxies = await loadProxies(args.proxies);
+  const fingerprints = await loadFingerprints(args.fingerprint, args['fingerprints-file']);
   const options: ScraperOptions = {
-    ...(args['from-list']
-      ? { fromList: args['from-list'] }
-      : args['org-id']
-        ? { orgId: args['org-id'] }
-        : { query: args.query }),
+    ...(await resolveInput(args)),
+    ...(args.domain && { domain: args.domain }),
+    ...(args.city && { city: args.city }),
+    ...(args.language && { language: args.language as Language }),
+    ...(tiling && { tiling }),
+    ...(searchFilters && { searchFilters }),
     delayMs: Number(args.delay),
     maxRecords: Number(args['max-records']),
     maxRetries: Number(args['max-retries']),
     headless: args.headless === 'true',
     scrapingMode: args.mode as 'list' | 'full' | 'full-with-reviews',
     maxReviewsPerOrg: Number(args['max-reviews']),
+    includeComments: args.comments === 'true',
+    maxCommentsPerOrg: Number(args['max-comments']),
+    incrementalReviews: args.incremental === 'true',
+    ...(reviewQuery && { reviewQuery }),
+    downloadReviewPhotos: args['download-review-photos'] === 'true',
+    includePhotos: args.photos === 'true',
+    maxPhotosPerOrg: Number(args['max-photos']),
+    downloadPhotos: args['download-photos'] === 'true',
+    maxPhotoBytes: Number(args['max-photo-kb']) * 1024,
+    concurrency: Number(args.concurrency),
+    requestsPerMinute: Number(args.rpm),
+    ...(proxies.length > 0 && { proxies }),
+    ...fingerprints,
+    rotateFingerprints: args['rotate-fingerprints'] === 'true',
   };
 
   validateOptions(options);
 
   const logger = new Logger();
-  if (options.fromList) {
-    logger.info(`Scraping from list file: ${options.fromList}`);
-  } else if (options.orgId) {
-    logger.info(`Scraping 2GIS organization ID: ${options.orgId}`);
-  } else {
-    logger.info(`Scraping 2GIS for "${options.query}" in Moscow`);
-  }
-  logger.info(
-    `Configuration: delay=${options.delayMs}ms, maxRecords=${options.maxRecords}, retries=${options.maxRetries}, mode=${options.scrapingMode}${options.scrapingMode === 'full-with-reviews' ? `, reviews=${options.maxReviewsPerOrg}` : ''}`,
-  );
+  logStartup(logger, options);
 
   const startTime = Date.now();
-  const { organizations, rawData } = await scrapeSearchResults(options);
+  const { organizations, rawData, search } = options.queries
+    ? await scrapeSearchBatch(options)
+    : await scrapeSearchResults(options);
   const responseTime = Date.now() - startTime;
 
   logger.info(`Total time: ${(responseTime / 1000).toFixed(1)}s`);
   logger.success(`Scraped ${organizations.length} organizations`);
+  if (search?.reportedTotal !== undefined) {
+    logger.info(`2GIS reported ${search.reportedTotal} total results for this query`);
+  }
 
   // Display summary
   console.log(`\n${'='.repeat(80)}`);
@@ -171,7 +581,7 @@ async function main() {
 
   // Save results using repository
   const repository = new ScraperRepository(logger);
-  await saveResults(repository, options, responseTime, organizations, rawData);
+  await saveResults(repository, options, responseTime, organizations, rawData, search);
 
   console.log(`\n${'='.repeat(80)}`);
   logger.success('Scraping completed successfully!');
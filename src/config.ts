@@ -5,10 +5,116 @@ export const DEFAULT_DELAYS = {
   retryBackoff: 1000,
 } as const;
 
+export const DEFAULT_DOMAIN = '2gis.ru';
+export const DEFAULT_CITY = 'moscow';
+
+export const RATE_LIMIT = {
+  jitterRatio: 0.3, // Random +/- share of the delay between requests
+  requestsPerMinute: 0, // Global budget across parallel pages, 0 = unlimited
+  windowSize: 20, // Recent navigations considered for adaptive slowdown
+  maxFailureRate: 0.2, // Slow down above this share of failed navigations
+  slowResponseMs: 10000, // Slow down above this average response time
+  slowdownFactor: 1.5, // Multiplier applied per unhealthy navigation (divided when healthy)
+  maxSlowdown: 8,
+} as const;
+
+export const BLOCK_HANDLING = {
+  // Lower-case text markers of captcha / anti-bot pages (RU and EN)
+  markers: [
+    'captcha',
+    'не робот',
+    'подозрительная активность',
+    'доступ ограничен',
+    'suspicious activity',
+    'unusual traffic',
+    'are you a robot',
+    'access denied',
+  ],
+  blockedStatuses: [403, 429],
+  cooldownMs: 60000, // First pause after a block, doubled on each further block
+  maxCooldownMs: 900000,
+  maxPauses: 10, // Give up treating blocks as pauses after this many per run
+  humanTimeoutMs: 600000, // Headed mode: how long to wait for a human to solve the captcha
+  pollIntervalMs: 2000,
+} as const;
+
+export const PROXY = {
+  envVar: 'SCRAPER_PROXIES', // Fallback proxy list when --proxies is not given
+  maxConsecutiveFailures: 3, // Rotate a context off its proxy after this many failures in a row
+  failureCooldownMs: 120000, // How long a failing proxy is skipped by rotation
+  blockCooldownMs: 600000, // How long a blocked proxy is skipped by rotation
+} as const;
+
+export const DEFAULT_FINGERPRINT = 'desktop-chrome';
+
+// Built-in browser fingerprint profiles; more can be loaded from a JSON file
+export const FINGERPRINT_PROFILES = {
+  'desktop-chrome': {
+    userAgent:
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36',
+    viewport: { width: 1280, height: 720 },
+    deviceScaleFactor: 1,
+  },
+  'desktop-chrome-hd': {
+    userAgent:
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/142.0.0.0 Safari/537.36',
+    viewport: { width: 1920, height: 1080 },
+    deviceScaleFactor: 1,
+  },
+  'desktop-chrome-mac': {
+    userAgent:
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36',
+    viewport: { width: 1440, height: 900 },
+    deviceScaleFactor: 2,
+  },
+  'mobile-android': {
+    userAgent:
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Mobile Safari/537.36',
+    viewport: { width: 412, height: 915 },
+    deviceScaleFactor: 2.625,
+    isMobile: true,
+    hasTouch: true,
+  },
+  'mobile-iphone': {
+    userAgent:
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 18_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.2 Mobile/15E148 Safari/604.1',
+    viewport: { width: 390, height: 844 },
+    deviceScaleFactor: 3,
+    isMobile: true,
+    hasTouch: true,
+  },
+} as const;
+
 export const DEFAULT_LIMITS = {
   maxRecords: 50,
   maxRetries: 3,
   maxReviewsPerOrg: 100,
+  maxCommentsPerOrg: 200,
+  maxAuthors: 50,
+  maxReviewsPerAuthor: 200,
+  maxSearchPages: 100,
+  searchPageSize: 12, // Firms per search results page
+  concurrency: 1,
+} as const;
+
+export const TILING = {
+  initialGrid: 2, // Initial split of the area into N x N tiles
+  maxDepth: 5, // Maximum number of recursive subdivisions
+  tileResultCap: 200, // Results per tile treated as "capped" and subdivided
+  viewportWidth: 1280, // Browser viewport size used to pick the map zoom per tile
+  viewportHeight: 720,
+} as const;
+
+export const SEARCH_FILTERS = {
+  // Tokens the site's filter panel writes into the search URL's /filters/ segment
+  separator: ';',
+  openNow: 'open_now',
+  open24h: 'open_24x7',
+  withPhotos: 'has_photos',
+  minRatingParam: 'rating', // rating=4.5
+  sortParam: 'sort', // sort=rating; relevance is the default and not written
+  sortValues: { relevance: '', rating: 'rating', distance: 'distance' },
+  nearZoom: 16, // Map zoom around the --near point for distance sorting
 } as const;
 
 export const TIMEOUTS = {
@@ -30,6 +136,87 @@ export const REQUEST_BLOCKING = {
   ] as const,
 } as const;
 
+export const NETWORK_CAPTURE = {
+  // Catalog JSON endpoints the 2GIS web app calls, e.g. catalog.api.2gis.ru/3.0/items/byid
+  urlPattern: /^https:\/\/catalog\.api\.2gis\.[a-z]+\/[\d.]+\/items\b/,
+  maxResponses: 50, // Per page, oldest dropped first
+  apiItemTimeoutMs: 3000, // Wait for the firm's API item before falling back to initialState
+  firmDataTimeoutMs: 5000, // Wait for initialState on firm pages when no API item came
+} as const;
+
+export const REVIEW_API = {
+  // Reviews JSON the reviews tab loads, e.g. public-api.reviews.2gis.com/2.0/branches/<id>/reviews
+  urlPattern:
+    /^https:\/\/public-api\.reviews\.2gis\.[a-z]+\/[\d.]+\/(branches|objects)\/\d+\/reviews\b/,
+  firstPageTimeoutMs: 5000, // Wait for the tab's own request (or the one "Load more" triggers)
+  commentsPageSize: 50,
+  // Review sort options -> sort_by values of the reviews API
+  sortValues: {
+    newest: 'date_edited',
+    useful: 'friendliness',
+    'rating-asc': 'rating_asc',
+    'rating-desc': 'rating_desc',
+  },
+  ratingParam: 'rating', // Comma-separated star ratings to keep
+  withPhotosParam: 'has_photos',
+  cursorParams: ['offset', 'offset_date'], // Dropped when re-querying from the first page
+} as const;
+
+export const REVIEW_PHOTOS = {
+  maxPerOrg: 100, // Cap on downloaded review photos per organization
+  timeoutMs: 15000,
+  defaultExtension: 'jpg',
+} as const;
+
+export const PHOTO_API = {
+  // Photo JSON the firm's photos tab loads, e.g. api.photo.2gis.com/3.0/objects/<firmId>/photos
+  urlPattern: /^https:\/\/api\.photo\.2gis\.[a-z]+\/[\d.]+\/objects\/\d+\//,
+  firstPageTimeoutMs: 5000,
+  maxPerOrg: 200, // Cap on listed photos per organization
+  maxFileBytes: 5 * 1024 * 1024, // Larger files are not saved
+  // Album names/codes (lowercased) -> photo category
+  categories: {
+    interior: ['интерьер', 'interior', 'inside', 'зал'],
+    exterior: ['фасад', 'экстерьер', 'снаружи', 'вход', 'exterior', 'outside', 'facade'],
+    menu: ['меню', 'menu', 'прайс', 'price'],
+    food: ['блюда', 'еда', 'кухня', 'food', 'dishes'],
+  },
+} as const;
+
+export const AUTHOR_API = {
+  // Review history JSON an author's profile loads, e.g. public-api.reviews.2gis.com/2.0/users/<id>/reviews
+  urlPattern: /^https:\/\/public-api\.reviews\.2gis\.[a-z]+\/[\d.]+\/users\/[\w-]+\/reviews\b/,
+  firstPageTimeoutMs: 5000,
+} as const;
+
+export const BRANCHES = {
+  // Cities listed with --cities all, largest first
+  citiesByDomain: {
+    '2gis.ru': [
+      'moscow',
+      'spb',
+      'novosibirsk',
+      'ekaterinburg',
+      'kazan',
+      'n_novgorod',
+      'chelyabinsk',
+      'samara',
+      'omsk',
+      'rostov',
+      'ufa',
+      'krasnoyarsk',
+      'voronezh',
+      'perm',
+      'volgograd',
+      'krasnodar',
+    ],
+    '2gis.kz': ['almaty', 'astana', 'shymkent', 'karaganda', 'aktobe'],
+    '2gis.kg': ['bishkek', 'osh'],
+    '2gis.uz': ['tashkent', 'samarkand'],
+    '2gis.ae': ['dubai', 'sharjah'],
+  } as Record<string, readonly string[]>,
+} as const;
+
 export const API_CONFIG = {
   version: 'playwright-scrape',
   endpoint: 'search-scrape',
@@ -9,3 +9,74 @@ export class InvalidListFileError extends Error {
     this.name = 'InvalidListFileError';
   }
 }
+
+export class UnsupportedLocaleError extends Error {
+  constructor(
+    message: string,
+    public readonly value: string,
+  ) {
+    super(message);
+    this.name = 'UnsupportedLocaleError';
+  }
+}
+
+export class InvalidAreaError extends Error {
+  constructor(
+    message: string,
+    public readonly value: string,
+  ) {
+    super(message);
+    this.name = 'InvalidAreaError';
+  }
+}
+
+export class InvalidReviewQueryError extends Error {
+  constructor(
+    message: string,
+    public readonly value: string,
+  ) {
+    super(message);
+    this.name = 'InvalidReviewQueryError';
+  }
+}
+
+export class InvalidSearchFilterError extends Error {
+  constructor(
+    message: string,
+    public readonly value: string,
+  ) {
+    super(message);
+    this.name = 'InvalidSearchFilterError';
+  }
+}
+
+export class BlockedPageError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+    public readonly reason: string,
+  ) {
+    super(message);
+    this.name = 'BlockedPageError';
+  }
+}
+
+export class InvalidProxyError extends Error {
+  constructor(
+    message: string,
+    public readonly value: string,
+  ) {
+    super(message);
+    this.name = 'InvalidProxyError';
+  }
+}
+
+export class UnknownFingerprintError extends Error {
+  constructor(
+    message: string,
+    public readonly profileName: string,
+  ) {
+    super(message);
+    this.name = 'UnknownFingerprintError';
+  }
+}
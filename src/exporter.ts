@@ -32,15 +32,29 @@ export function exportToJSONL(reviews: ReviewDataset[]): string {
   return reviews.map((r) => JSON.stringify(r)).join('\n');
 }
 
+function escapeCSV(value: string | undefined): string {
+  return `"${(value ?? '').replace(/"/g, '""')}"`;
+}
+
 /**
  * Export reviews to CSV format
+ * Official answer columns are added only when at least one review has an answer
  */
 export function exportToCSV(reviews: ReviewDataset[]): string {
-  const header = 'rating,text\n';
+  const withAnswers = reviews.some((r) => r.officialAnswerText);
+  const header = withAnswers
+    ? 'rating,text,official_answer_text,official_answer_date,official_answer_responder\n'
+    : 'rating,text\n';
   const rows = reviews
     .map((r) => {
-      const escapedText = r.text.replace(/"/g, '""');
-      return `${r.rating},"${escapedText}"`;
+      const row = `${r.rating},${escapeCSV(r.text)}`;
+      if (!withAnswers) return row;
+      return [
+        row,
+        escapeCSV(r.officialAnswerText),
+        escapeCSV(r.officialAnswerDate),
+        escapeCSV(r.officialAnswerResponder),
+      ].join(',');
     })
     .join('\n');
   return header + rows;
@@ -55,6 +55,7 @@ This dataset contains reviews scraped from 2GIS (Russia's leading local search a
 
 - \`text\`: Review text content
 - \`rating\`: Rating (1-5 stars)
+- \`officialAnswerText\`, \`officialAnswerDate\`, \`officialAnswerResponder\` (optional): The company's official reply
 
 ## Usage
 
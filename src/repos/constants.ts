@@ -17,3 +17,22 @@ export const ORGANIZATIONS_PATHS = {
   full: 'data/parsed/full/organizations',
   fullWithReviews: 'data/parsed/full-with-reviews/organizations',
 } as const;
+
+export const AUTHORS_PATHS = {
+  dir: 'data/parsed/authors',
+} as const;
+
+export const PHOTOS_PATHS = {
+  reviews: 'data/raw/review-photos',
+  organizations: 'data/raw/org-photos',
+} as const;
+
+export const RUBRICS_PATHS = {
+  // Parsed outputs holding organizations
+  sources: [
+    'data/parsed/list',
+    'data/parsed/full/organizations',
+    'data/parsed/full-with-reviews/organizations',
+    'data/parsed/organizations',
+  ],
+} as const;
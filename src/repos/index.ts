@@ -2,7 +2,15 @@
  * Repository exports
  */
 
-export { DATA_PATHS, ORGANIZATIONS_PATHS, REVIEWS_PATHS } from './constants.js';
+export {
+  AUTHORS_PATHS,
+  DATA_PATHS,
+  ORGANIZATIONS_PATHS,
+  PHOTOS_PATHS,
+  REVIEWS_PATHS,
+  RUBRICS_PATHS,
+} from './constants.js';
+export { PhotoRepository } from './photo-repository.js';
 export {
   type PrepareResult,
   PublisherRepository,
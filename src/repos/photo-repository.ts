@@ -0,0 +1,27 @@
+/**
+ * Repository for downloaded photo files
+ */
+
+import { access, mkdir, writeFile } from 'node:fs/promises';
+
+export class PhotoRepository {
+  /**
+   * Path of the file if it was already downloaded
+   */
+  async find(dirPath: string, fileName: string): Promise<string | undefined> {
+    const filePath = `${dirPath}/${fileName}`;
+    try {
+      await access(filePath);
+      return filePath;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async save(dirPath: string, fileName: string, body: Uint8Array): Promise<string> {
+    await mkdir(dirPath, { recursive: true });
+    const filePath = `${dirPath}/${fileName}`;
+    await writeFile(filePath, body);
+    return filePath;
+  }
+}
@@ -20,6 +20,9 @@ export interface PrepareResult {
 export interface ReviewDataset {
   text: string;
   rating: number;
+  officialAnswerText?: string;
+  officialAnswerDate?: string;
+  officialAnswerResponder?: string;
 }
 
 export class PublisherRepository {
@@ -44,9 +47,13 @@ export class PublisherRepository {
 
       for (const review of reviewFile.data) {
         if (review.text && review.rating) {
+          const answer = review.officialAnswer;
           allReviews.push({
             text: review.text,
             rating: review.rating,
+            ...(answer?.text && { officialAnswerText: answer.text }),
+            ...(answer?.dateCreated && { officialAnswerDate: answer.dateCreated }),
+            ...(answer?.responder && { officialAnswerResponder: answer.responder }),
           });
         }
       }
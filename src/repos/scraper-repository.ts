@@ -5,17 +5,42 @@
 import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
 import { API_CONFIG } from '../config.js';
 import { InvalidListFileError } from '../errors.js';
-import type { ScrapedOrganization } from '../types/index.js';
+import type {
+  ChainManifest,
+  Language,
+  Review,
+  ReviewAuthor,
+  Rubric,
+  RubricNode,
+  ScrapedOrganization,
+  ScrapeLocation,
+  SearchFilters,
+  SearchMetadata,
+} from '../types/index.js';
 import type { Logger, Metadata } from '../utils.js';
 import { createMetadata, slugify } from '../utils.js';
-import { DATA_PATHS, ORGANIZATIONS_PATHS } from './constants.js';
+import {
+  AUTHORS_PATHS,
+  DATA_PATHS,
+  ORGANIZATIONS_PATHS,
+  REVIEWS_PATHS,
+  RUBRICS_PATHS,
+} from './constants.js';
 
 export interface ListData {
   orgIds: string[];
   query?: string;
+  domain?: string;
+  city?: string;
+  language?: string;
   totalResults: number;
+  reportedTotal?: number; // Total result count reported by 2GIS at search time
+  searchFilters?: SearchFilters; // Filters and sort order the list was collected with
 }
 
+// Rewrites one saved review, given the file's scraping language and time when recorded
+export type ReviewUpdate = (review: Review, language?: Language, fetchedAt?: Date) => Review;
+
 export class ScraperRepository {
   constructor(private logger: Logger) {}
 
@@ -66,6 +91,13 @@ export class ScraperRepository {
         orgIds,
         totalResults: orgIds.length,
         query: parsed.meta?.query,
+        ...(parsed.meta?.domain && { domain: parsed.meta.domain }),
+        ...(parsed.meta?.city && { city: parsed.meta.city }),
+        ...(parsed.meta?.language && { language: parsed.meta.language }),
+        ...(typeof parsed.meta?.search?.reportedTotal === 'number' && {
+          reportedTotal: parsed.meta.search.reportedTotal,
+        }),
+        ...(parsed.meta?.search?.filters && { searchFilters: parsed.meta.search.filters }),
       };
     }
 
@@ -78,10 +110,18 @@ export class ScraperRepository {
     organizations: ScrapedOrganization[],
     // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
     rawData: any[],
+    location?: ScrapeLocation,
+    search?: SearchMetadata,
   ): Promise<void> {
     const timestamp = this.createFileTimestamp();
     const slug = slugify(query);
-    const metadata = this.createMetadata(query, responseTimeMs, organizations.length);
+    const metadata = this.createMetadata(
+      query,
+      responseTimeMs,
+      organizations.length,
+      location,
+      search,
+    );
 
     await this.saveRawData(`list-raw-${slug}-${timestamp}.json`, metadata, rawData, 'list');
     this.logger.success(`List raw data saved (${rawData.length} items)`);
@@ -97,10 +137,11 @@ export class ScraperRepository {
     // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
     rawData: any[],
     prefix: 'full' | 'full-with-reviews' = 'full',
+    location?: ScrapeLocation,
   ): Promise<void> {
     const timestamp = this.createFileTimestamp();
     const slug = slugify(query);
-    const metadata = this.createMetadata(query, responseTimeMs, organizations.length);
+    const metadata = this.createMetadata(query, responseTimeMs, organizations.length, location);
 
     // Save each organization individually
     for (let i = 0; i < organizations.length; i++) {
@@ -108,12 +149,12 @@ export class ScraperRepository {
       const raw = rawData[i];
       if (!org || !raw) continue;
 
-      const orgId = org.orgId || `unknown-${i}`;
+      const orgId = this.organizationFileKey(org, i);
 
       // Save raw data
       await this.saveRawData(
         `${orgId}-${timestamp}.json`,
-        this.createMetadata(query, responseTimeMs, 1),
+        this.createMetadata(query, responseTimeMs, 1, location),
         raw,
         `${prefix}/organizations`,
       );
@@ -121,7 +162,7 @@ export class ScraperRepository {
       // Save parsed data
       await this.saveParsedData(
         `${orgId}-${timestamp}.json`,
-        this.createMetadata(query, responseTimeMs, 1),
+        this.createMetadata(query, responseTimeMs, 1, location),
         org,
         `${prefix}/organizations`,
       );
@@ -130,9 +171,10 @@ export class ScraperRepository {
     // Create manifest with list of all orgs
     const manifest = {
       query,
+      ...location,
       scrapedAt: new Date().toISOString(),
       totalOrganizations: organizations.length,
-      organizationIds: organizations.map((org) => org.orgId || 'unknown'),
+      organizationIds: organizations.map((org, i) => this.organizationFileKey(org, i)),
       timestamp,
     };
 
@@ -150,10 +192,14 @@ export class ScraperRepository {
     query: string,
     responseTimeMs: number,
     organizations: ScrapedOrganization[],
+    location?: ScrapeLocation,
   ): Promise<void> {
     const allReviews = organizations.flatMap((org) => {
       if (!org.reviews || org.reviews.length === 0) return [];
-      return org.reviews.map((review) => ({
+      // Incrementally synced orgs only append their new and edited reviews
+      const changedIds = org.reviewSync && new Set(org.reviewSync.changedIds);
+      const reviews = changedIds ? org.reviews.filter((r) => changedIds.has(r.id)) : org.reviews;
+      return reviews.map((review) => ({
         ...review,
         organizationId: org.orgId,
         organizationName: org.name,
@@ -164,7 +210,7 @@ export class ScraperRepository {
 
     const timestamp = this.createFileTimestamp();
     const slug = slugify(query);
-    const metadata = this.createMetadata(query, responseTimeMs, allReviews.length);
+    const metadata = this.createMetadata(query, responseTimeMs, allReviews.length, location);
 
     await this.saveParsedData(
       `reviews-${slug}-${timestamp}.json`,
@@ -182,10 +228,11 @@ export class ScraperRepository {
     // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
     rawData: any,
     includeReviews = false,
+    location?: ScrapeLocation,
   ): Promise<void> {
     const timestamp = this.createFileTimestamp();
     const prefix = includeReviews ? 'full-with-reviews' : 'full';
-    const metadata = this.createMetadata(orgId, responseTimeMs, 1);
+    const metadata = this.createMetadata(orgId, responseTimeMs, 1, location);
 
     await this.saveRawData(
       `${prefix}-organization-${orgId}-raw-${timestamp}.json`,
@@ -220,17 +267,158 @@ export class ScraperRepository {
     }
   }
 
-  private createMetadata(query: string, responseTimeMs: number, totalResults: number): Metadata {
+  private createMetadata(
+    query: string,
+    responseTimeMs: number,
+    totalResults: number,
+    location?: ScrapeLocation,
+    search?: SearchMetadata,
+  ): Metadata {
     return createMetadata({
       apiVersion: API_CONFIG.version,
       endpoint: API_CONFIG.endpoint,
       statusCode: API_CONFIG.statusCode,
       query,
+      ...location,
       totalResults,
       responseTimeMs,
+      ...(search && { search }),
     });
   }
 
+  /**
+   * Author IDs found in saved review files, most frequent first
+   */
+  async collectReviewAuthorIds(reviewsDir: string = REVIEWS_PATHS.dir): Promise<string[]> {
+    const counts = new Map<string, number>();
+    const files = await readdir(reviewsDir).catch(() => [] as string[]);
+    for (const file of files.filter((f) => f.endsWith('.json'))) {
+      try {
+        const content = JSON.parse(await readFile(`${reviewsDir}/${file}`, 'utf-8'));
+        for (const review of Array.isArray(content.data) ? (content.data as Review[]) : []) {
+          if (review.authorId) {
+            counts.set(review.authorId, (counts.get(review.authorId) ?? 0) + 1);
+          }
+        }
+      } catch (e) {
+        this.logger.warn(`Skipping unreadable review file ${file}: ${e}`);
+      }
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([id]) => id);
+  }
+
+  async getScrapedAuthorIds(): Promise<Set<string>> {
+    const files = await readdir(AUTHORS_PATHS.dir).catch(() => [] as string[]);
+    const authorIds = new Set<string>();
+    for (const file of files) {
+      // Extract authorId from filename pattern: {authorId}-{timestamp}.json
+      const match = file.match(/^(.+)-\d{4}-\d{2}-\d{2}T/);
+      if (match?.[1]) {
+        authorIds.add(match[1]);
+      }
+    }
+    return authorIds;
+  }
+
+  async saveAuthors(
+    authors: ReviewAuthor[],
+    // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
+    rawData: any[],
+    responseTimeMs: number,
+    location?: ScrapeLocation,
+  ): Promise<void> {
+    const timestamp = this.createFileTimestamp();
+
+    for (let i = 0; i < authors.length; i++) {
+      const author = authors[i];
+      if (!author) continue;
+      const metadata = this.createMetadata(
+        author.id,
+        responseTimeMs,
+        author.reviews.length,
+        location,
+      );
+
+      await this.saveRawData(`${author.id}-${timestamp}.json`, metadata, rawData[i], 'authors');
+      await this.saveParsedData(`${author.id}-${timestamp}.json`, metadata, author, 'authors');
+    }
+
+    this.logger.success(`Authors saved: ${authors.length} individual files`);
+  }
+
+  /**
+   * Chain manifest linking the org entity to all of its branch firm IDs
+   */
+  async saveChainManifest(
+    chain: ChainManifest,
+    responseTimeMs: number,
+    location?: ScrapeLocation,
+  ): Promise<string> {
+    const timestamp = this.createFileTimestamp();
+    const metadata = this.createMetadata(
+      chain.orgId,
+      responseTimeMs,
+      chain.firmIds.length,
+      location,
+    );
+    const filePath = await this.saveParsedData(
+      `${chain.orgId}-${timestamp}.json`,
+      metadata,
+      { ...chain, scrapedAt: new Date().toISOString() },
+      'chains',
+    );
+    this.logger.success(`Chain manifest saved (${chain.firmIds.length} branches)`);
+    return filePath;
+  }
+
+  /**
+   * Rubric entries of every saved organization (one per firm and rubric), from list files
+   * and organization files alike; files saved before rubrics were structured hold bare names
+   */
+  async collectRubrics(
+    dirs: readonly string[] = RUBRICS_PATHS.sources,
+  ): Promise<(Rubric | string)[]> {
+    const rubrics: (Rubric | string)[] = [];
+    for (const dir of dirs) {
+      const files = await readdir(dir).catch(() => [] as string[]);
+      for (const file of files.filter((f) => f.endsWith('.json') && !f.includes('-raw-'))) {
+        for (const org of await this.readOrganizationsFile(`${dir}/${file}`)) {
+          if (Array.isArray(org?.rubrics)) rubrics.push(...org.rubrics);
+        }
+      }
+    }
+    return rubrics;
+  }
+
+  // Branches of one chain share orgId, so files are keyed by the firm when known
+  private organizationFileKey(org: ScrapedOrganization, index: number): string {
+    return org.firmId || org.orgId || `unknown-${index}`;
+  }
+
+  // Organizations of a parsed list file (array) or organization file (single object)
+  private async readOrganizationsFile(filePath: string): Promise<Partial<ScrapedOrganization>[]> {
+    try {
+      const content = JSON.parse(await readFile(filePath, 'utf-8'));
+      return Array.isArray(content.data) ? content.data : [content.data];
+    } catch (e) {
+      this.logger.warn(`Skipping unreadable file ${filePath}: ${e}`);
+      return [];
+    }
+  }
+
+  async saveRubricTree(tree: RubricNode[], rubricCount: number): Promise<string> {
+    const timestamp = this.createFileTimestamp();
+    const metadata = this.createMetadata('rubric-tree', 0, rubricCount);
+    const filePath = await this.saveParsedData(
+      `rubric-tree-${timestamp}.json`,
+      metadata,
+      tree,
+      'rubrics',
+    );
+    this.logger.success(`Rubric tree saved (${rubricCount} rubrics): ${filePath}`);
+    return filePath;
+  }
+
   async getScrapedOrgIds(mode: 'full' | 'full-with-reviews'): Promise<Set<string>> {
     const dirPath =
       mode === 'full' ? ORGANIZATIONS_PATHS.full : ORGANIZATIONS_PATHS.fullWithReviews;
@@ -250,4 +438,103 @@ export class ScraperRepository {
       return new Set();
     }
   }
+
+  /**
+   * Reviews of the latest saved file per organization in full-with-reviews, keyed by firm ID.
+   * Files saved before firmId was recorded are named after the chain's org ID, so their
+   * firm ID is read from the raw file saved alongside.
+   */
+  async loadKnownReviews(
+    dirPath: string = ORGANIZATIONS_PATHS.fullWithReviews,
+    rawDirPath = `${DATA_PATHS.raw}/full-with-reviews/organizations`,
+  ): Promise<Map<string, Review[]>> {
+    let files: string[];
+    try {
+      files = await readdir(dirPath);
+    } catch {
+      // Directory doesn't exist yet
+      return new Map();
+    }
+
+    // Timestamps in filenames sort chronologically, so later files overwrite earlier ones
+    const known = new Map<string, Review[]>();
+    for (const file of files.filter((f) => f.endsWith('.json')).sort()) {
+      try {
+        const content = JSON.parse(await readFile(`${dirPath}/${file}`, 'utf-8'));
+        const org: ScrapedOrganization | undefined = content.data;
+        if (!Array.isArray(org?.reviews)) continue;
+        const key = org.firmId ?? (await this.readRawFirmId(`${rawDirPath}/${file}`));
+        if (key) {
+          known.set(key, org.reviews);
+        } else {
+          this.logger.warn(`No firm ID found for ${file}, its reviews will be fetched again`);
+        }
+      } catch (e) {
+        this.logger.warn(`Skipping unreadable organization file ${file}: ${e}`);
+      }
+    }
+    return known;
+  }
+
+  // Firm ID from a raw organization file: its firm page URL or its API item ID
+  private async readRawFirmId(filePath: string): Promise<string | undefined> {
+    try {
+      const raw = JSON.parse(await readFile(filePath, 'utf-8')).data;
+      const itemId = raw?.data?.result?.items?.[0]?.id;
+      return (
+        raw?.url?.match(/\/firm\/(\d+)/)?.[1] ??
+        (itemId !== undefined ? String(itemId).split('_')[0] : undefined)
+      );
+    } catch {
+      // No raw counterpart
+      return undefined;
+    }
+  }
+
+  /**
+   * Rewrite reviews in saved full-with-reviews files (organization files and aggregated
+   * review files) in place; files without changes are left untouched
+   */
+  async updateSavedReviews(
+    update: ReviewUpdate,
+  ): Promise<{ filesUpdated: number; reviewsUpdated: number }> {
+    let filesUpdated = 0;
+    let reviewsUpdated = 0;
+
+    for (const dirPath of [ORGANIZATIONS_PATHS.fullWithReviews, REVIEWS_PATHS.dir]) {
+      const files = await readdir(dirPath).catch(() => [] as string[]);
+      for (const file of files.filter((f) => f.endsWith('.json'))) {
+        try {
+          const changed = await this.updateReviewFile(`${dirPath}/${file}`, update);
+          if (changed === 0) continue;
+          filesUpdated++;
+          reviewsUpdated += changed;
+        } catch (e) {
+          this.logger.warn(`Skipping unreadable review file ${file}: ${e}`);
+        }
+      }
+    }
+
+    return { filesUpdated, reviewsUpdated };
+  }
+
+  // Rewrite one saved review file, returning how many of its reviews changed
+  private async updateReviewFile(filePath: string, update: ReviewUpdate): Promise<number> {
+    const content = JSON.parse(await readFile(filePath, 'utf-8'));
+    // Aggregated files hold a review array, organization files an org with reviews
+    const holder = Array.isArray(content.data) ? content : content.data;
+    const key = Array.isArray(content.data) ? 'data' : 'reviews';
+    const reviews: Review[] | undefined = holder?.[key];
+    if (!Array.isArray(reviews)) return 0;
+
+    const fetchedAt = content.meta?.fetchedAt ? new Date(content.meta.fetchedAt) : undefined;
+    let changed = 0;
+    holder[key] = reviews.map((review) => {
+      const updated = update(review, content.meta?.language, fetchedAt);
+      if (JSON.stringify(updated) !== JSON.stringify(review)) changed++;
+      return updated;
+    });
+    if (changed > 0) await writeFile(filePath, JSON.stringify(content, null, 2));
+    return changed;
+  }
 }
@@ -0,0 +1,120 @@
+import type { Page, Response } from 'playwright';
+import { BLOCK_HANDLING } from '../config.js';
+import type { BlockedPageError } from '../errors.js';
+import type { Logger } from '../utils.js';
+import { sleep } from '../utils.js';
+import type { RateLimiter } from './rate-limiter.js';
+
+export interface PageSnapshot {
+  url: string;
+  status?: number | undefined;
+  title: string;
+  text: string; // Beginning of the visible body text
+  hasCaptchaWidget: boolean;
+}
+
+// Return why the page looks like a captcha / anti-bot page, or null for a regular page
+export function classifyBlockedPage(snapshot: PageSnapshot): string | null {
+  if (
+    snapshot.status !== undefined &&
+    (BLOCK_HANDLING.blockedStatuses as readonly number[]).includes(snapshot.status)
+  ) {
+    return `HTTP ${snapshot.status}`;
+  }
+  if (/captcha/i.test(snapshot.url)) {
+    return 'redirected to captcha';
+  }
+  if (snapshot.hasCaptchaWidget) {
+    return 'captcha widget on page';
+  }
+
+  const content = `${snapshot.title}\n${snapshot.text}`.toLowerCase();
+  const marker = BLOCK_HANDLING.markers.find((m) => content.includes(m));
+  return marker ? `page text contains "${marker}"` : null;
+}
+
+export async function detectBlockedPage(
+  page: Page,
+  response?: Response | null,
+): Promise<string | null> {
+  const snapshot = await page.evaluate(() => ({
+    title: document.title,
+    text: document.body?.innerText?.slice(0, 2000) ?? '',
+    hasCaptchaWidget: Boolean(
+      document.querySelector('iframe[src*="captcha"], [id*="captcha" i], [class*="captcha" i]'),
+    ),
+  }));
+
+  return classifyBlockedPage({ url: page.url(), status: response?.status(), ...snapshot });
+}
+
+// Pauses the whole run when a page is blocked: a growing cool-down in headless mode,
+// or waiting for a human to solve the captcha in headed mode
+export class BlockHandler {
+  private pauses = 0;
+  private pending: Promise<void> | undefined;
+
+  constructor(
+    private limiter: RateLimiter,
+    private headless: boolean,
+    private logger: Logger,
+  ) {}
+
+  // Returns true when the blocked operation should be retried without counting as a failure
+  async handle(page: Page, error: BlockedPageError): Promise<boolean> {
+    // Another page is already handling a block: wait for the same pause
+    if (this.pending) {
+      await this.pending;
+      return true;
+    }
+
+    if (this.pauses >= BLOCK_HANDLING.maxPauses) {
+      this.logger.error(`Blocked again after ${this.pauses} pauses, counting as failure`);
+      return false;
+    }
+    this.pauses++;
+
+    this.pending = this.headless ? this.coolDown(error) : this.waitForHuman(page, error);
+    try {
+      await this.pending;
+    } finally {
+      this.pending = undefined;
+    }
+    return true;
+  }
+
+  private async coolDown(error: BlockedPageError): Promise<void> {
+    const cooldownMs = Math.min(
+      BLOCK_HANDLING.maxCooldownMs,
+      BLOCK_HANDLING.cooldownMs * 2 ** (this.pauses - 1),
+    );
+    this.logger.warn(
+      `Blocked page (${error.reason}) at ${error.url}, pausing all pages for ${(cooldownMs / 1000).toFixed(0)}s`,
+    );
+    this.limiter.pause(cooldownMs);
+    await sleep(cooldownMs);
+    this.logger.info('Cool-down finished, resuming');
+  }
+
+  private async waitForHuman(page: Page, error: BlockedPageError): Promise<void> {
+    this.logger.warn(
+      `Blocked page (${error.reason}) at ${error.url}. Solve it in the browser window, waiting up to ${(BLOCK_HANDLING.humanTimeoutMs / 60000).toFixed(0)} min...`,
+    );
+    this.limiter.pause(BLOCK_HANDLING.humanTimeoutMs);
+
+    const deadline = Date.now() + BLOCK_HANDLING.humanTimeoutMs;
+    try {
+      while (Date.now() < deadline) {
+        await sleep(BLOCK_HANDLING.pollIntervalMs);
+        const reason = await detectBlockedPage(page).catch(() => error.reason);
+        if (!reason) {
+          this.logger.success('Block cleared, resuming');
+          return;
+        }
+      }
+      this.logger.warn('Timed out waiting for the block to be cleared, resuming anyway');
+    } finally {
+      this.limiter.resume();
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import type { Page } from 'playwright';
+import { AUTHOR_API } from '../config.js';
+import type { AuthorReview, ReviewAuthor, ScrapeLocation } from '../types/index.js';
+import type { Logger } from '../utils.js';
+import { DEFAULT_NAVIGATION_TIMEOUT } from './constants.js';
+import { gotoPage } from './helpers.js';
+import { collectApiResponses, fetchApiJson } from './network.js';
+import type { RateLimiter } from './rate-limiter.js';
+import { mapReview } from './review-api.js';
+import { buildAuthorUrl } from './urls.js';
+
+// One page of an author's review history
+export interface AuthorReviewsPage {
+  reviews: AuthorReview[];
+  nextLink?: string;
+  total?: number;
+  name?: string;
+}
+
+export function isAuthorReviewsUrl(url: string): boolean {
+  return AUTHOR_API.urlPattern.test(url);
+}
+
+// Author history reviews carry the reviewed branch in `object`
+// biome-ignore lint/suspicious/noExplicitAny: 2GIS review data structure is dynamic
+export function mapAuthorReview(raw: any): AuthorReview {
+  const object = raw.object;
+  return {
+    ...mapReview(raw),
+    ...(object?.id && { organizationId: String(object.id) }),
+    ...(object?.name && { organizationName: object.name }),
+  };
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: Raw API JSON is untyped
+export function parseAuthorReviewsResponse(body: any): AuthorReviewsPage | null {
+  if (body?.meta?.code !== 200 || !Array.isArray(body.reviews)) return null;
+
+  const nextLink = body.meta.next_link;
+  const total = body.meta.total_count;
+  // biome-ignore lint/suspicious/noExplicitAny: 2GIS review data structure is dynamic
+  const name = body.reviews.find((r: any) => r?.user?.name)?.user.name;
+  return {
+    // biome-ignore lint/suspicious/noExplicitAny: 2GIS review data structure is dynamic
+    reviews: body.reviews.filter((r: any) => r?.id !== undefined).map(mapAuthorReview),
+    ...(typeof nextLink === 'string' && nextLink && { nextLink }),
+    ...(typeof total === 'number' && { total }),
+    ...(name && { name }),
+  };
+}
+
+// Author entity with summary numbers for spotting review farms
+export function buildReviewAuthor(
+  id: string,
+  reviews: AuthorReview[],
+  name?: string,
+  reviewCount?: number,
+): ReviewAuthor {
+  const organizations = new Set(reviews.map((r) => r.organizationId).filter(Boolean));
+  const rated = reviews.filter((r) => r.rating > 0);
+  const averageRating = rated.length
+    ? Math.round((rated.reduce((sum, r) => sum + r.rating, 0) / rated.length) * 100) / 100
+    : undefined;
+
+  return {
+    id,
+    ...(name && { name }),
+    ...(reviewCount !== undefined && { reviewCount }),
+    organizationCount: organizations.size,
+    ...(averageRating !== undefined && { averageRating }),
+    reviews,
+  };
+}
+
+// Open the author's profile, take the history request it makes and follow its cursor
+export async function scrapeAuthorReviews(
+  page: Page,
+  authorId: string,
+  maxReviews: number,
+  logger: Logger,
+  location?: ScrapeLocation,
+  limiter?: RateLimiter,
+  // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
+): Promise<{ author: ReviewAuthor; rawData: any[] }> {
+  const collector = collectApiResponses(page, isAuthorReviewsUrl);
+  const reviews = new Map<string, AuthorReview>();
+  // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
+  const rawData: any[] = [];
+  let name: string | undefined;
+  let total: number | undefined;
+
+  try {
+    const url = buildAuthorUrl(authorId, location?.city, location?.domain);
+    logger.debug(`Navigating to author: ${url}`);
+    await gotoPage(page, url, DEFAULT_NAVIGATION_TIMEOUT, limiter);
+
+    const response = await page
+      .waitForResponse((r) => isAuthorReviewsUrl(r.url()) && r.status() === 200, {
+        timeout: AUTHOR_API.firstPageTimeoutMs,
+      })
+      .catch(() => null);
+    const firstBody = collector.responses[0]?.body ?? (await response?.json().catch(() => null));
+    // Fail the attempt so the retry wrapper counts it and the author is not saved as crawled
+    if (!firstBody) {
+      throw new Error(`No review history request seen for author ${authorId}`);
+    }
+
+    let body = firstBody;
+    let pageNumber = 1;
+    while (body) {
+      const current = parseAuthorReviewsResponse(body);
+      if (!current) break;
+      rawData.push(body);
+      name ??= current.name;
+      total ??= current.total;
+
+      const sizeBefore = reviews.size;
+      for (const review of current.reviews) {
+        if (reviews.size >= maxReviews) break;
+        reviews.set(review.id, review);
+      }
+      logger.debug(
+        `Author ${authorId} page ${pageNumber}: ${reviews.size - sizeBefore} new reviews`,
+      );
+
+      if (reviews.size >= maxReviews || !current.nextLink || reviews.size === sizeBefore) break;
+      body = await fetchApiJson(page, current.nextLink, limiter);
+      pageNumber++;
+    }
+  } finally {
+    collector.stop();
+  }
+
+  const history = [...reviews.values()];
+  const reviewCount = total ?? history.find((r) => r.authorReviewCount)?.authorReviewCount;
+  return { author: buildReviewAuthor(authorId, history, name, reviewCount), rawData };
+}
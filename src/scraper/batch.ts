@@ -0,0 +1,47 @@
+import { readFile } from 'node:fs/promises';
+import type { SearchResultItem } from '../types/index.js';
+
+// Firms found by one query of a batch
+export interface QueryResult {
+  query: string;
+  items: SearchResultItem[];
+}
+
+// Firm of the merged batch list with every query that found it
+export interface MergedSearchItem {
+  item: SearchResultItem;
+  matchedQueries: string[];
+}
+
+// One query per line; blank lines, duplicates and # comments are skipped
+export function parseQueryList(text: string): string[] {
+  const queries = text
+    .split('\n')
+    .map((line) => line.replace(/#.*$/, '').trim())
+    .filter(Boolean);
+  return [...new Set(queries)];
+}
+
+export async function loadQueryList(filePath: string): Promise<string[]> {
+  return parseQueryList(await readFile(filePath, 'utf-8'));
+}
+
+// De-duplicate firms across queries in first-seen order; a later query's catalog item fills
+// in for a card that was found without one
+export function mergeQueryResults(results: QueryResult[]): MergedSearchItem[] {
+  const merged = new Map<string, MergedSearchItem>();
+
+  for (const { query, items } of results) {
+    for (const item of items) {
+      const existing = merged.get(item.firmId);
+      if (!existing) {
+        merged.set(item.firmId, { item, matchedQueries: [query] });
+        continue;
+      }
+      if (!existing.matchedQueries.includes(query)) existing.matchedQueries.push(query);
+      if (!existing.item.data && item.data) existing.item = { ...existing.item, data: item.data };
+    }
+  }
+
+  return [...merged.values()];
+}
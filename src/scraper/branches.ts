@@ -0,0 +1,125 @@
+import type { Page } from 'playwright';
+import { BRANCHES } from '../config.js';
+import type {
+  BranchesTarget,
+  ChainManifest,
+  ScrapedOrganization,
+  ScrapeLocation,
+  ScraperOptions,
+} from '../types/index.js';
+import type { Logger } from '../utils.js';
+import type { BlockHandler } from './anti-bot.js';
+import { DEFAULT_NAVIGATION_TIMEOUT } from './constants.js';
+import { extractDataFromPage, gotoPage } from './helpers.js';
+import type { RateLimiter } from './rate-limiter.js';
+import { collectResultPages } from './search.js';
+import { waitForFirmData } from './single-org.js';
+import { buildBranchesUrl, buildFirmUrl } from './urls.js';
+
+// Chain (org) entity a branch belongs to
+export interface ChainInfo {
+  orgId: string;
+  orgName?: string;
+  branchCount?: number;
+}
+
+// Chain info from a firm item's `org`; undefined for firms without one
+// biome-ignore lint/suspicious/noExplicitAny: 2GIS item data structure is dynamic
+export function extractChainInfo(item: any): ChainInfo | undefined {
+  const org = item?.org;
+  if (!org?.id) return undefined;
+  const orgName = org.name || org.primary;
+  return {
+    orgId: String(org.id),
+    ...(orgName && { orgName }),
+    ...(typeof org.branch_count === 'number' && { branchCount: org.branch_count }),
+  };
+}
+
+// Cities to list branches in: explicit slugs, "all" (the domain's major cities) or the run's city
+export function resolveBranchCities(target: BranchesTarget, location: ScrapeLocation): string[] {
+  const cities = target.cities ?? [];
+  if (cities.includes('all')) {
+    return [...(BRANCHES.citiesByDomain[location.domain] ?? [location.city])];
+  }
+  return cities.length > 0 ? [...new Set(cities)] : [location.city];
+}
+
+// Open a branch's firm page and read the chain it belongs to
+export async function resolveChain(
+  page: Page,
+  firmId: string,
+  location: ScrapeLocation,
+  logger: Logger,
+  limiter?: RateLimiter,
+): Promise<ChainInfo> {
+  await gotoPage(
+    page,
+    buildFirmUrl(firmId, location.city, location.domain),
+    DEFAULT_NAVIGATION_TIMEOUT,
+    limiter,
+  );
+  await waitForFirmData(page, firmId);
+  const extraction = await extractDataFromPage(page, logger, firmId);
+  const chain = extractChainInfo(extraction?.item);
+  if (!chain) {
+    throw new Error(`Firm ${firmId} has no chain (org) info`);
+  }
+  return chain;
+}
+
+// List the chain's branches city by city until maxRecords or the reported branch count
+export async function collectChainBranches(
+  page: Page,
+  chain: ChainInfo,
+  cities: string[],
+  location: ScrapeLocation,
+  options: Pick<ScraperOptions, 'maxRecords' | 'maxRetries'>,
+  logger: Logger,
+  limiter?: RateLimiter,
+  blockHandler?: BlockHandler,
+): Promise<ChainManifest['cities']> {
+  const seenIds = new Set<string>();
+  const found: ChainManifest['cities'] = [];
+  const expected = Math.min(options.maxRecords, chain.branchCount ?? Number.POSITIVE_INFINITY);
+
+  for (const city of cities) {
+    if (seenIds.size >= expected) break;
+    const cityLocation = { ...location, city };
+    const { items } = await collectResultPages(
+      page,
+      (pageNumber) => buildBranchesUrl(chain.orgId, city, location.domain, pageNumber),
+      cityLocation,
+      { maxRecords: expected - seenIds.size, maxRetries: options.maxRetries },
+      logger,
+      limiter,
+      blockHandler,
+    );
+
+    const firmIds = items.map((item) => item.firmId).filter((id) => !seenIds.has(id));
+    for (const id of firmIds) seenIds.add(id);
+    logger.info(`Branches in ${city}: ${firmIds.length} (total: ${seenIds.size})`);
+    if (firmIds.length > 0) found.push({ city, firmIds });
+  }
+
+  return found;
+}
+
+export function buildChainManifest(
+  chain: ChainInfo,
+  cities: ChainManifest['cities'],
+  organizations: ScrapedOrganization[],
+): ChainManifest {
+  const firmIds = cities.flatMap((entry) => entry.firmIds);
+  const scraped = new Set(organizations.map((org) => org.firmId).filter(Boolean));
+  const orgName = chain.orgName ?? organizations.find((org) => org.orgName)?.orgName;
+  return {
+    orgId: chain.orgId,
+    ...(orgName && { orgName }),
+    ...(chain.branchCount !== undefined && { reportedBranchCount: chain.branchCount }),
+    cities,
+    firmIds,
+    scrapedFirmIds: firmIds.filter((id) => scraped.has(id)),
+    failedFirmIds: firmIds.filter((id) => !scraped.has(id)),
+  };
+}
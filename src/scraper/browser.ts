@@ -1,29 +1,132 @@
 import type { Browser, BrowserContext, Page } from 'playwright';
 import { chromium } from 'playwright';
+import type { ProxyConfig } from '../types/index.js';
 import type { Logger } from '../utils.js';
+import {
+  type FingerprintDefaults,
+  FingerprintRotation,
+  fingerprintContextOptions,
+  type NamedFingerprint,
+  resolveFingerprints,
+} from './fingerprint.js';
 import { setupRequestBlocking } from './helpers.js';
+import { getApiCapture } from './network.js';
+import { type ProxyPool, proxyLabel } from './proxy.js';
 
-export interface BrowserSession {
-  browser: Browser;
+// One browser context with its page; context and page are replaced when the proxy rotates
+export interface BrowserWorker {
   context: BrowserContext;
   page: Page;
+  proxy?: ProxyConfig; // Sticky for the lifetime of the context
+  fingerprint: NamedFingerprint;
 }
 
-export async function createBrowserSession(
-  headless: boolean,
+export interface BrowserSession {
+  browser: Browser;
+  workers: BrowserWorker[]; // One per parallel page; workers[0] is the main page
+  defaults: FingerprintDefaults;
+  fingerprints: FingerprintRotation;
+  proxyPool?: ProxyPool;
+}
+
+export interface BrowserSessionOptions {
+  headless: boolean;
+  locale?: string;
+  timezoneId?: string;
+  concurrency?: number; // Number of parallel pages (default: 1)
+  proxyPool?: ProxyPool;
+  fingerprints?: FingerprintRotation; // default: the desktop-chrome profile
+}
+
+async function createWorker(
+  browser: Browser,
+  defaults: FingerprintDefaults,
+  fingerprint: NamedFingerprint,
   logger: Logger,
-): Promise<BrowserSession> {
-  const browser = await chromium.launch({ headless });
+  proxy?: ProxyConfig,
+): Promise<BrowserWorker> {
   const context = await browser.newContext({
-    userAgent:
-      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/143.0.0.0 Safari/537.36',
+    ...fingerprintContextOptions(fingerprint.profile, defaults),
+    ...(proxy && { proxy }),
   });
   const page = await context.newPage();
 
   // Setup request blocking
   await setupRequestBlocking(page, logger);
+  getApiCapture(page, logger);
+
+  return { context, page, fingerprint, ...(proxy && { proxy }) };
+}
+
+export async function createBrowserSession(
+  options: BrowserSessionOptions,
+  logger: Logger,
+): Promise<BrowserSession> {
+  const browser = await chromium.launch({ headless: options.headless });
+  const defaults: FingerprintDefaults = {
+    locale: options.locale ?? 'ru-RU',
+    timezoneId: options.timezoneId ?? 'Europe/Moscow',
+  };
+  const fingerprints = options.fingerprints ?? new FingerprintRotation(resolveFingerprints());
+  const workerCount = Math.max(1, options.concurrency ?? 1);
+  const workers: BrowserWorker[] = [];
+  for (let i = 0; i < workerCount; i++) {
+    const proxy = options.proxyPool?.acquire();
+    const fingerprint = fingerprints.next();
+    workers.push(await createWorker(browser, defaults, fingerprint, logger, proxy));
+    logger.debug(
+      `Page ${i + 1}: fingerprint ${fingerprint.name}${proxy ? `, proxy ${proxyLabel(proxy)}` : ''}`,
+    );
+  }
+
+  const [first] = workers;
+  if (!first) {
+    throw new Error('Failed to create browser page');
+  }
+  if (workerCount > 1) {
+    logger.debug(`Browser session with ${workerCount} parallel pages`);
+  }
+
+  return {
+    browser,
+    workers,
+    defaults,
+    fingerprints,
+    ...(options.proxyPool && { proxyPool: options.proxyPool }),
+  };
+}
+
+// Move a worker to a fresh context on another healthy proxy (and the next fingerprint when
+// rotating); false when no proxy is available
+export async function rotateWorkerProxy(
+  session: BrowserSession,
+  worker: BrowserWorker,
+  logger: Logger,
+): Promise<boolean> {
+  const pool = session.proxyPool;
+  const next = pool?.acquire(worker.proxy);
+  if (!pool || !next) {
+    logger.warn('No healthy proxy available to rotate to');
+    return false;
+  }
+
+  const previous = worker.proxy;
+  if (previous) pool.release(previous);
+  await worker.context.close().catch(() => {});
 
-  return { browser, context, page };
+  const fresh = await createWorker(
+    session.browser,
+    session.defaults,
+    session.fingerprints.next(),
+    logger,
+    next,
+  );
+  worker.context = fresh.context;
+  worker.page = fresh.page;
+  worker.proxy = next;
+  worker.fingerprint = fresh.fingerprint;
+  logger.info(`Rotated proxy ${previous ? proxyLabel(previous) : 'none'} -> ${proxyLabel(next)}`);
+  return true;
 }
 
 export async function closeBrowser(browser: Browser, logger: Logger): Promise<void> {
@@ -0,0 +1,117 @@
+import { readFile } from 'node:fs/promises';
+import type { BrowserContextOptions } from 'playwright';
+import { DEFAULT_FINGERPRINT, FINGERPRINT_PROFILES } from '../config.js';
+import { UnknownFingerprintError } from '../errors.js';
+import type { FingerprintProfile } from '../types/index.js';
+
+export interface NamedFingerprint {
+  name: string;
+  profile: FingerprintProfile;
+}
+
+// Locale and timezone used when a profile does not pin its own
+export interface FingerprintDefaults {
+  locale: string;
+  timezoneId: string;
+}
+
+const builtInProfiles: Record<string, FingerprintProfile> = FINGERPRINT_PROFILES;
+
+export function listFingerprintProfiles(custom: Record<string, FingerprintProfile> = {}): string[] {
+  return Object.keys({ ...builtInProfiles, ...custom });
+}
+
+// Look up profiles by name; custom profiles override built-in ones with the same name
+export function resolveFingerprints(
+  names: string[] = [DEFAULT_FINGERPRINT],
+  custom: Record<string, FingerprintProfile> = {},
+): NamedFingerprint[] {
+  const profiles = { ...builtInProfiles, ...custom };
+  return (names.length > 0 ? names : [DEFAULT_FINGERPRINT]).map((name) => {
+    const profile = profiles[name];
+    if (!profile) {
+      throw new UnknownFingerprintError(
+        `Unknown fingerprint profile "${name}". Available: ${Object.keys(profiles).join(', ')}`,
+        name,
+      );
+    }
+    return { name, profile };
+  });
+}
+
+// Read custom profiles from a JSON file: { "<name>": { userAgent, viewport, ... } }
+export async function loadFingerprintProfiles(
+  filePath: string,
+): Promise<Record<string, FingerprintProfile>> {
+  const parsed: unknown = JSON.parse(await readFile(filePath, 'utf-8'));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new UnknownFingerprintError(
+      `Fingerprint file ${filePath} must contain an object of named profiles`,
+      filePath,
+    );
+  }
+
+  for (const [name, profile] of Object.entries(parsed)) {
+    if (!isFingerprintProfile(profile)) {
+      throw new UnknownFingerprintError(
+        `Fingerprint profile "${name}" in ${filePath} needs userAgent, viewport {width, height} and deviceScaleFactor`,
+        name,
+      );
+    }
+  }
+  return parsed as Record<string, FingerprintProfile>;
+}
+
+function isFingerprintProfile(value: unknown): value is FingerprintProfile {
+  // biome-ignore lint/suspicious/noExplicitAny: Validating untyped JSON
+  const profile = value as any;
+  return (
+    typeof profile?.userAgent === 'string' &&
+    typeof profile.viewport?.width === 'number' &&
+    typeof profile.viewport?.height === 'number' &&
+    typeof profile.deviceScaleFactor === 'number'
+  );
+}
+
+// "ru-RU" -> "ru-RU,ru;q=0.9"
+export function buildAcceptLanguage(locale: string): string {
+  const language = locale.split('-')[0];
+  return language && language !== locale ? `${locale},${language};q=0.9` : locale;
+}
+
+// Playwright context options for a profile
+export function fingerprintContextOptions(
+  profile: FingerprintProfile,
+  defaults: FingerprintDefaults,
+): BrowserContextOptions {
+  const locale = profile.locale ?? defaults.locale;
+  return {
+    userAgent: profile.userAgent,
+    viewport: { ...profile.viewport },
+    deviceScaleFactor: profile.deviceScaleFactor,
+    isMobile: profile.isMobile ?? false,
+    hasTouch: profile.hasTouch ?? false,
+    locale,
+    timezoneId: profile.timezoneId ?? defaults.timezoneId,
+    extraHTTPHeaders: { 'Accept-Language': profile.acceptLanguage ?? buildAcceptLanguage(locale) },
+  };
+}
+
+// Hands out profiles to new browser contexts: always the first one, or round-robin when rotating
+export class FingerprintRotation {
+  private nextIndex = 0;
+
+  constructor(
+    private fingerprints: NamedFingerprint[],
+    private rotate = false,
+  ) {
+    if (fingerprints.length === 0) {
+      throw new UnknownFingerprintError('At least one fingerprint profile is required', '');
+    }
+  }
+
+  next(): NamedFingerprint {
+    const index = this.rotate ? this.nextIndex++ % this.fingerprints.length : 0;
+    return this.fingerprints[index] as NamedFingerprint;
+  }
+}
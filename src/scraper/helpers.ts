@@ -1,8 +1,25 @@
-import type { Page } from 'playwright';
-import { REQUEST_BLOCKING } from '../config.js';
+import type { Page, Response } from 'playwright';
+import { DEFAULT_DELAYS, REQUEST_BLOCKING } from '../config.js';
+import { BlockedPageError } from '../errors.js';
 import type { DataExtractionResult } from '../types/index.js';
 import type { Logger } from '../utils.js';
 import { sleep } from '../utils.js';
+import { detectBlockedPage } from './anti-bot.js';
+import { getApiCapture } from './network.js';
+import type { RateLimiter } from './rate-limiter.js';
+
+// Pages currently allowed to load images (e.g. while a photo gallery is scraped)
+const imagesAllowed = new WeakSet<Page>();
+
+// Run fn with images unblocked on this page only
+export async function withImagesAllowed<T>(page: Page, fn: () => Promise<T>): Promise<T> {
+  imagesAllowed.add(page);
+  try {
+    return await fn();
+  } finally {
+    imagesAllowed.delete(page);
+  }
+}
 
 // Block unnecessary resources to improve performance
 export async function setupRequestBlocking(page: Page, logger: Logger) {
@@ -11,8 +28,11 @@ export async function setupRequestBlocking(page: Page, logger: Logger) {
     const resourceType = route.request().resourceType();
 
     // Block images, fonts, media, stylesheets to speed up scraping
-    // biome-ignore lint/suspicious/noExplicitAny: resourceType needs runtime type checking
-    if (REQUEST_BLOCKING.resourceTypes.includes(resourceType as any)) {
+    if (
+      // biome-ignore lint/suspicious/noExplicitAny: resourceType needs runtime type checking
+      REQUEST_BLOCKING.resourceTypes.includes(resourceType as any) &&
+      !(resourceType === 'image' && imagesAllowed.has(page))
+    ) {
       route.abort();
       return;
     }
@@ -28,33 +48,96 @@ export async function setupRequestBlocking(page: Page, logger: Logger) {
   logger.debug('Request blocking enabled (images, fonts, analytics)');
 }
 
-// Retry wrapper for operations that might fail
+// Retry wrapper for operations that might fail.
+// When onBlocked resolves true for a BlockedPageError, the attempt is retried without counting.
 export async function withRetry<T>(
   fn: () => Promise<T>,
   maxRetries: number,
   logger: Logger,
   operationName: string,
+  onBlocked?: (error: BlockedPageError) => Promise<boolean>,
 ): Promise<T | null> {
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       return await fn();
     } catch (error) {
+      if (error instanceof BlockedPageError && onBlocked && (await onBlocked(error))) {
+        attempt--;
+        continue;
+      }
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       if (attempt === maxRetries) {
         logger.error(`${operationName} failed after ${maxRetries} attempts: ${errorMsg}`);
         return null;
       }
       logger.warn(`${operationName} attempt ${attempt} failed: ${errorMsg}, retrying...`);
-      await sleep(1000 * attempt); // Exponential backoff
+      await sleep(DEFAULT_DELAYS.retryBackoff * attempt); // Exponential backoff
     }
   }
   return null;
 }
 
-// Extract data from page using initialState
+// Navigate through the rate limiter, feeding response time and failures back into it.
+// Throws BlockedPageError when 2GIS serves a captcha / anti-bot page.
+export async function gotoPage(
+  page: Page,
+  url: string,
+  timeout: number,
+  limiter?: RateLimiter,
+): Promise<Response | null> {
+  await limiter?.acquire(page);
+
+  // Captured API responses should belong to the document being loaded
+  getApiCapture(page).clear();
+
+  const start = Date.now();
+  let response: Response | null;
+  try {
+    response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout });
+  } catch (error) {
+    limiter?.recordFailure();
+    throw error;
+  }
+
+  const blockReason = await detectBlockedPage(page, response);
+  if (blockReason) {
+    limiter?.recordFailure();
+    throw new BlockedPageError(`Blocked page detected: ${blockReason}`, url, blockReason);
+  }
+
+  if (response && response.status() >= 400) {
+    limiter?.recordFailure();
+  } else {
+    limiter?.recordSuccess(Date.now() - start);
+  }
+  return response;
+}
+
+// Extract firm data from a captured catalog API response (preferred) and/or initialState
 export async function extractDataFromPage(
   page: Page,
   logger: Logger,
+  firmId?: string,
+): Promise<DataExtractionResult | null> {
+  const captured = firmId ? getApiCapture(page).findItem(firmId) : undefined;
+  const extraction = await extractFromInitialState(page, logger);
+
+  if (captured) {
+    logger.debug('Extracted data from catalog API response');
+    // API fields win; initialState fills in whatever the API request did not ask for
+    return {
+      item: { ...extraction?.item, ...captured.item },
+      source: 'api',
+      fullData: captured.body,
+    };
+  }
+
+  return extraction;
+}
+
+async function extractFromInitialState(
+  page: Page,
+  logger: Logger,
 ): Promise<DataExtractionResult | null> {
   try {
     const extraction = await page.evaluate(() => {
@@ -1,94 +1,368 @@
+import type { Page } from 'playwright';
+import { RATE_LIMIT } from '../config.js';
+import { BlockedPageError } from '../errors.js';
 import { ScraperRepository } from '../repos/index.js';
-import type { ScrapedOrganization, ScraperOptions } from '../types/index.js';
+import type {
+  AuthorScraperOptions,
+  BatchQueryMetadata,
+  BranchScraperOptions,
+  ChainManifest,
+  Review,
+  ReviewAuthor,
+  ScrapedOrganization,
+  ScrapeLocation,
+  ScraperOptions,
+  SearchMetadata,
+} from '../types/index.js';
 import { Logger } from '../utils.js';
-import { closeBrowser, createBrowserSession } from './browser.js';
-import { DEFAULT_NAVIGATION_TIMEOUT, DEFAULT_WAIT_TIMEOUT } from './constants.js';
+import { BlockHandler } from './anti-bot.js';
+import { scrapeAuthorReviews } from './authors.js';
+import { mergeQueryResults, type QueryResult } from './batch.js';
+import {
+  buildChainManifest,
+  type ChainInfo,
+  collectChainBranches,
+  resolveBranchCities,
+  resolveChain,
+} from './branches.js';
+import {
+  type BrowserSession,
+  type BrowserWorker,
+  closeBrowser,
+  createBrowserSession,
+  rotateWorkerProxy,
+} from './browser.js';
+import { FingerprintRotation, resolveFingerprints } from './fingerprint.js';
 import { withRetry } from './helpers.js';
+import { getBrowserLocale, getBrowserTimezone, resolveLocation } from './locale.js';
+import { runWorkerPool } from './pool.js';
+import { ProxyPool, proxyLabel } from './proxy.js';
+import { RateLimiter } from './rate-limiter.js';
+import { collectResultPages, collectSearchResults, type SearchCollection } from './search.js';
+import { buildListOrganization } from './search-card.js';
+import { hasSearchFilters } from './search-filters.js';
 import { scrapeSingleOrganization } from './single-org.js';
+import { collectTiledSearchResults } from './tiling.js';
+import { buildFirmUrl, buildRubricUrl } from './urls.js';
 
-// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Main orchestration function handles multiple scraping modes
-export async function scrapeSearchResults(
+interface FirmBatchResult {
+  organizations: ScrapedOrganization[];
+  // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
+  rawData: any[];
+  successCount: number;
+  failureCount: number;
+}
+
+// Run a task on the worker's current page, feeding the outcome into its proxy's health
+async function runOnWorker<T>(
+  session: BrowserSession,
+  worker: BrowserWorker,
+  logger: Logger,
+  task: (worker: BrowserWorker) => Promise<T>,
+): Promise<T> {
+  const { proxy } = worker;
+  try {
+    const result = await task(worker);
+    if (proxy) session.proxyPool?.recordSuccess(proxy);
+    return result;
+  } catch (error) {
+    // Blocks are handled by onWorkerBlocked; other failures rotate after repeated errors
+    if (proxy && !(error instanceof BlockedPageError) && session.proxyPool?.recordFailure(proxy)) {
+      await rotateWorkerProxy(session, worker, logger);
+    }
+    throw error;
+  }
+}
+
+// Rotate a blocked worker to another proxy, pausing the whole run only when none is left
+async function onWorkerBlocked(
+  session: BrowserSession,
+  worker: BrowserWorker,
+  blockHandler: BlockHandler,
+  error: BlockedPageError,
+  logger: Logger,
+): Promise<boolean> {
+  if (worker.proxy && session.proxyPool) {
+    session.proxyPool.recordBlocked(worker.proxy);
+    if (await rotateWorkerProxy(session, worker, logger)) return true;
+  }
+  return blockHandler.handle(worker.page, error);
+}
+
+// Record which fingerprint and proxy exit served a raw data entry
+// biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
+function withWorkerInfo(rawData: any, worker: BrowserWorker): any {
+  return {
+    ...rawData,
+    fingerprint: worker.fingerprint.name,
+    ...(worker.proxy && { proxy: proxyLabel(worker.proxy) }),
+  };
+}
+
+// Saved reviews per firm for incremental sync, or undefined when syncing is off
+async function loadKnownReviews(
   options: ScraperOptions,
+  repository: ScraperRepository,
+  logger: Logger,
+): Promise<Map<string, Review[]> | undefined> {
+  if (!options.incrementalReviews || options.scrapingMode !== 'full-with-reviews') return undefined;
+  const known = await repository.loadKnownReviews();
+  logger.info(`Incremental review sync: ${known.size} organizations with saved reviews`);
+  return known;
+}
+
+function logProxyHealth(pool: ProxyPool | undefined, logger: Logger): void {
+  for (const entry of pool?.health() ?? []) {
+    logger.info(
+      `Proxy ${proxyLabel(entry.proxy)}: ${entry.successes} ok, ${entry.failures} failed, ${entry.blocks} blocked`,
+    );
+  }
+}
+
+// Scrape firm pages across the worker pool; output keeps the order of firmIds
+async function scrapeFirms(
+  session: BrowserSession,
+  firmIds: string[],
+  location: ScrapeLocation,
+  options: ScraperOptions,
+  logger: Logger,
+  limiter: RateLimiter,
+  blockHandler: BlockHandler,
+  knownReviews?: Map<string, Review[]>,
+): Promise<FirmBatchResult> {
+  const batch: FirmBatchResult = {
+    organizations: [],
+    rawData: [],
+    successCount: 0,
+    failureCount: 0,
+  };
+
+  const results = await runWorkerPool(session.workers, firmIds, async (worker, firmId, index) => {
+    logger.progress(index + 1, firmIds.length, `Processing org: ${firmId}`);
+
+    const url = buildFirmUrl(firmId, location.city, location.domain);
+    const result = await withRetry(
+      async () =>
+        runOnWorker(session, worker, logger, async ({ page }) => {
+          const scraped = await scrapeSingleOrganization(
+            page,
+            url,
+            logger,
+            options,
+            limiter,
+            knownReviews?.get(firmId),
+          );
+          return scraped && { ...scraped, rawData: withWorkerInfo(scraped.rawData, worker) };
+        }),
+      options.maxRetries,
+      logger,
+      `Scraping organization ${firmId}`,
+      (error) => onWorkerBlocked(session, worker, blockHandler, error, logger),
+    );
+
+    if (result) {
+      logger.success(
+        `${result.organization.name} | Phone: ${result.organization.phone ?? '-'} | Rating: ${result.organization.rating ?? '-'}`,
+      );
+    } else {
+      logger.error(`Failed to scrape organization ${firmId}`);
+    }
+    return result;
+  });
+
+  for (const result of results) {
+    if (result) {
+      batch.organizations.push(result.organization);
+      batch.rawData.push(result.rawData);
+      batch.successCount++;
+    } else {
+      batch.failureCount++;
+    }
+  }
+
+  return batch;
+}
+
+interface ScrapeRun {
+  session: BrowserSession;
+  mainWorker: BrowserWorker;
+  limiter: RateLimiter;
+  blockHandler: BlockHandler;
+  proxyPool?: ProxyPool;
+}
+
+// Browser session, shared rate limiter and block handling for one scraping run
+async function startRun(
+  options: Pick<
+    ScraperOptions,
+    | 'headless'
+    | 'delayMs'
+    | 'requestsPerMinute'
+    | 'concurrency'
+    | 'proxies'
+    | 'fingerprints'
+    | 'rotateFingerprints'
+    | 'fingerprintProfiles'
+  >,
+  location: ScrapeLocation,
+  logger: Logger,
+): Promise<ScrapeRun> {
+  const proxyPool = options.proxies?.length ? new ProxyPool(options.proxies, logger) : undefined;
+  if (proxyPool) {
+    logger.info(`Using ${proxyPool.size} proxies`);
+  }
+
+  const fingerprints = new FingerprintRotation(
+    resolveFingerprints(options.fingerprints, options.fingerprintProfiles),
+    options.rotateFingerprints,
+  );
+
+  const session = await createBrowserSession(
+    {
+      headless: options.headless,
+      locale: getBrowserLocale(location),
+      timezoneId: getBrowserTimezone(location),
+      fingerprints,
+      ...(options.concurrency !== undefined && { concurrency: options.concurrency }),
+      ...(proxyPool && { proxyPool }),
+    },
+    logger,
+  );
+  const [mainWorker] = session.workers;
+  if (!mainWorker) {
+    throw new Error('Failed to create browser page');
+  }
+
+  // One limiter shared by all pages so delay and budget apply to the whole run
+  const limiter = new RateLimiter(
+    {
+      minIntervalMs: options.delayMs,
+      jitterRatio: RATE_LIMIT.jitterRatio,
+      requestsPerMinute: options.requestsPerMinute ?? RATE_LIMIT.requestsPerMinute,
+    },
+    logger,
+  );
+  const blockHandler = new BlockHandler(limiter, options.headless, logger);
+
+  return { session, mainWorker, limiter, blockHandler, ...(proxyPool && { proxyPool }) };
+}
+
+// One search query, tiled when an area is given
+async function collectQueryResults(
+  page: Page,
+  query: string,
+  location: ScrapeLocation,
+  options: ScraperOptions,
+  logger: Logger,
+  limiter: RateLimiter,
+  blockHandler: BlockHandler,
+): Promise<SearchCollection> {
+  return options.tiling
+    ? await collectTiledSearchResults(
+        page,
+        query,
+        location,
+        options.tiling,
+        options,
+        logger,
+        limiter,
+        blockHandler,
+      )
+    : await collectSearchResults(page, query, location, options, logger, {}, limiter, blockHandler);
+}
+
+// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Main orchestration function handles multiple scraping modes
+export async function scrapeSearchResults(options: ScraperOptions): Promise<{
+  organizations: ScrapedOrganization[];
   // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
-): Promise<{ organizations: ScrapedOrganization[]; rawData: any[] }> {
+  rawData: any[];
+  search?: SearchMetadata;
+}> {
   const logger = new Logger();
+  const repository = new ScraperRepository(logger);
+
+  // Read list file up front so its domain/city/language can be reused
+  if (options.fromList) {
+    logger.info(`Reading list file: ${options.fromList}`);
+  }
+  const listData = options.fromList ? await repository.readListFile(options.fromList) : undefined;
+  const location = resolveLocation(options, listData);
+  const scrapeOptions: ScraperOptions = { ...options, ...location };
+
   logger.info(
-    `Starting scraper with options: maxRecords=${options.maxRecords}, delay=${options.delayMs}ms, retries=${options.maxRetries}, headless=${options.headless}, mode=${options.scrapingMode}${options.scrapingMode === 'full-with-reviews' ? `, reviews=${options.maxReviewsPerOrg}` : ''}`,
+    `Starting scraper with options: domain=${location.domain}, city=${location.city}, language=${location.language}, maxRecords=${options.maxRecords}, concurrency=${options.concurrency ?? 1}, delay=${options.delayMs}ms, rpm=${options.requestsPerMinute ?? RATE_LIMIT.requestsPerMinute}, retries=${options.maxRetries}, headless=${options.headless}, mode=${options.scrapingMode}${options.scrapingMode === 'full-with-reviews' ? `, reviews=${options.maxReviewsPerOrg}` : ''}`,
   );
 
-  const { browser, page } = await createBrowserSession(options.headless, logger);
+  const { session, mainWorker, limiter, blockHandler, proxyPool } = await startRun(
+    options,
+    location,
+    logger,
+  );
+  const { browser } = session;
+  const knownReviews = await loadKnownReviews(options, repository, logger);
 
   const organizations: ScrapedOrganization[] = [];
   // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
   const rawData: any[] = [];
+  let search: SearchMetadata | undefined;
 
   try {
     // If fromList is provided, read list file and scrape each org
-    if (options.fromList) {
-      logger.info(`Reading list file: ${options.fromList}`);
-      const repository = new ScraperRepository(logger);
-      const listData = await repository.readListFile(options.fromList);
+    if (listData) {
       const orgIds = listData.orgIds.slice(0, options.maxRecords);
 
       logger.info(`Found ${listData.orgIds.length} orgs in list, will scrape ${orgIds.length}`);
 
-      // Get already scraped org IDs to skip
-      const alreadyScraped = await repository.getScrapedOrgIds(
-        options.scrapingMode as 'full' | 'full-with-reviews',
-      );
+      // Get already scraped org IDs to skip (incremental sync revisits them instead)
+      const alreadyScraped = knownReviews
+        ? new Set<string>()
+        : await repository.getScrapedOrgIds(options.scrapingMode as 'full' | 'full-with-reviews');
       const orgIdsToScrape = orgIds.filter((id) => !alreadyScraped.has(id));
       const skippedCount = orgIds.length - orgIdsToScrape.length;
       if (skippedCount > 0) {
         logger.info(`Skipping ${skippedCount} already scraped orgs`);
       }
 
-      let successCount = 0;
-      let failureCount = 0;
-
-      for (let i = 0; i < orgIdsToScrape.length; i++) {
-        const orgId = orgIdsToScrape[i];
-        if (!orgId) continue;
-
-        logger.progress(i + 1, orgIdsToScrape.length, `Processing org: ${orgId}`);
-
-        const orgUrl = `https://2gis.ru/moscow/firm/${orgId}`;
-        const result = await withRetry(
-          async () => scrapeSingleOrganization(page, orgUrl, logger, options),
-          options.maxRetries,
-          logger,
-          `Scraping organization ${orgId}`,
-        );
-
-        if (result) {
-          organizations.push(result.organization);
-          rawData.push(result.rawData);
-          logger.success(
-            `${result.organization.name} | Phone: ${result.organization.phone ?? '-'} | Rating: ${result.organization.rating ?? '-'}`,
-          );
-          successCount++;
-        } else {
-          logger.error(`Failed to scrape organization ${orgId}`);
-          failureCount++;
-        }
-      }
+      const batch = await scrapeFirms(
+        session,
+        orgIdsToScrape,
+        location,
+        scrapeOptions,
+        logger,
+        limiter,
+        blockHandler,
+        knownReviews,
+      );
 
       logger.info(
-        `Scraping from list complete: ${successCount} succeeded, ${failureCount} failed, ${skippedCount} skipped`,
+        `Scraping from list complete: ${batch.successCount} succeeded, ${batch.failureCount} failed, ${skippedCount} skipped`,
       );
       await closeBrowser(browser, logger);
-      return { organizations, rawData };
+      return { organizations: batch.organizations, rawData: batch.rawData };
     }
 
     // If orgId is provided, scrape single organization directly
     if (options.orgId) {
       logger.info(`Scraping organization by ID: ${options.orgId}`);
-      const orgUrl = `https://2gis.ru/moscow/firm/${options.orgId}`;
+      const orgUrl = buildFirmUrl(options.orgId, location.city, location.domain);
 
       const result = await withRetry(
-        async () => scrapeSingleOrganization(page, orgUrl, logger, options),
+        async () =>
+          runOnWorker(session, mainWorker, logger, async ({ page }) => {
+            const scraped = await scrapeSingleOrganization(
+              page,
+              orgUrl,
+              logger,
+              scrapeOptions,
+              limiter,
+              knownReviews?.get(options.orgId as string),
+            );
+            return scraped && { ...scraped, rawData: withWorkerInfo(scraped.rawData, mainWorker) };
+          }),
         options.maxRetries,
         logger,
         'Scraping organization',
+        (error) => onWorkerBlocked(session, mainWorker, blockHandler, error, logger),
       );
 
       if (result) {
@@ -105,66 +379,57 @@ export async function scrapeSearchResults(
       return { organizations, rawData };
     }
 
-    // Otherwise, proceed with search query
-    if (!options.query) {
-      logger.error('Either query or orgId must be provided');
+    // Otherwise, proceed with search query or rubric listing
+    const { query, rubricId } = options;
+    if (!query && !rubricId) {
+      logger.error('Either query, rubricId or orgId must be provided');
       await closeBrowser(browser, logger);
       return { organizations, rawData };
     }
 
-    logger.info(`Navigating to 2GIS search for "${options.query}"...`);
-
-    // Navigate to search page with retry
-    const searchUrl = `https://2gis.ru/moscow/search/${encodeURIComponent(options.query)}`;
-
-    const navigateSuccess = await withRetry(
-      async () => {
-        await page.goto(searchUrl, {
-          waitUntil: 'domcontentloaded',
-          timeout: DEFAULT_WAIT_TIMEOUT,
-        });
-        return true;
-      },
-      options.maxRetries,
-      logger,
-      'Search page navigation',
+    logger.info(
+      rubricId
+        ? `Collecting 2GIS firms in rubric ${rubricId}...`
+        : `Collecting 2GIS search results for "${query}"...`,
     );
 
-    if (!navigateSuccess) {
-      logger.error('Failed to load search page');
-      await closeBrowser(browser, logger);
-      return { organizations, rawData };
-    }
-
-    logger.success('Search page loaded');
-
-    // Wait for search results
-    const resultsFound = await withRetry(
-      async () => {
-        await page.waitForSelector('a[href*="/moscow/firm/"]', {
-          timeout: DEFAULT_NAVIGATION_TIMEOUT,
-        });
-        return true;
-      },
-      options.maxRetries,
-      logger,
-      'Waiting for search results',
-    );
+    // Search stays on the first worker's proxy; blocks there pause the run
+    const { page } = mainWorker;
+    const { items, search: searchMeta } = rubricId
+      ? await collectResultPages(
+          page,
+          (pageNumber) => buildRubricUrl(rubricId, location.city, location.domain, pageNumber),
+          location,
+          options,
+          logger,
+          limiter,
+          blockHandler,
+        )
+      : await collectQueryResults(
+          page,
+          query as string,
+          location,
+          options,
+          logger,
+          limiter,
+          blockHandler,
+        );
+    search = {
+      ...searchMeta,
+      ...(hasSearchFilters(options.searchFilters) && { filters: options.searchFilters }),
+    };
 
-    if (!resultsFound) {
+    if (items.length === 0) {
       logger.error('No search results found');
       await closeBrowser(browser, logger);
-      return { organizations, rawData };
+      return { organizations, rawData, search };
     }
 
-    // Extract firm URLs
-    const firmUrls = await page.$$eval('a[href*="/moscow/firm/"]', (links) =>
-      links.slice(0, 50).map((link) => (link as HTMLAnchorElement).href),
+    const totalToScrape = Math.min(items.length, options.maxRecords);
+    logger.info(
+      `Found ${items.length} results across ${search.pagesVisited} pages${search.tiling ? ` and ${search.tiling.tilesSearched} tiles` : ''}${search.reportedTotal !== undefined ? ` (2GIS reports ${search.reportedTotal})` : ''}, will scrape ${totalToScrape}`,
     );
 
-    const totalToScrape = Math.min(firmUrls.length, options.maxRecords);
-    logger.info(`Found ${firmUrls.length} results, will scrape ${totalToScrape}`);
-
     let successCount = 0;
     let failureCount = 0;
 
@@ -172,81 +437,293 @@ export async function scrapeSearchResults(
     if (options.scrapingMode === 'list') {
       logger.info('List mode: extracting basic data from search results');
 
-      const basicData = await page.evaluate((maxRecords) => {
-        // biome-ignore lint/suspicious/noExplicitAny: Search result items have dynamic structure
-        const results: any[] = [];
-        const links = document.querySelectorAll('a[href*="/moscow/firm/"]');
-
-        for (const link of Array.from(links).slice(0, maxRecords)) {
-          const container =
-            link.closest('[data-id]') || link.closest('article') || link.parentElement;
-          const firmId = link.getAttribute('href')?.match(/firm\/(\d+)/)?.[1];
-
-          if (firmId) {
-            results.push({
-              firmId,
-              url: link.getAttribute('href'),
-              name: link.textContent?.trim() || '',
-              container: container?.outerHTML || '',
-            });
-          }
-        }
-
-        return results;
-      }, totalToScrape);
-
-      for (let i = 0; i < Math.min(basicData.length, totalToScrape); i++) {
-        const item = basicData[i];
+      for (let i = 0; i < totalToScrape; i++) {
+        const item = items[i];
         if (!item) continue;
 
         logger.progress(i + 1, totalToScrape, `Processing: ${item.firmId}`);
 
-        // Extract minimal data from search results
-        const organization: ScrapedOrganization = {
-          name: item.name,
-          address: '',
-          rubrics: [],
-          orgId: item.firmId,
-        };
+        // Catalog item from the results page when there is one, else the parsed card
+        const organization = buildListOrganization(item, logger, location.language);
 
         organizations.push(organization);
-        rawData.push(item);
-        logger.success(`${organization.name} (list mode)`);
+        rawData.push(withWorkerInfo(item, mainWorker));
+        logger.success(
+          `${organization.name} | Rating: ${organization.rating ?? '-'} (${organization.reviewCount ?? 0} reviews)${organization.advertiser ? ' | Ad' : ''} (list mode)`,
+        );
         successCount++;
       }
     } else {
       // For 'full' and 'full-with-reviews' modes, navigate to each page
-      for (let i = 0; i < totalToScrape; i++) {
-        const url = firmUrls[i];
-        if (!url) continue;
+      const firmIds = items.slice(0, totalToScrape).map((item) => item.firmId);
+      const batch = await scrapeFirms(
+        session,
+        firmIds,
+        location,
+        scrapeOptions,
+        logger,
+        limiter,
+        blockHandler,
+        knownReviews,
+      );
+      organizations.push(...batch.organizations);
+      rawData.push(...batch.rawData);
+      successCount += batch.successCount;
+      failureCount += batch.failureCount;
+    }
+
+    logger.info(`Scraping complete: ${successCount} succeeded, ${failureCount} failed`);
+  } finally {
+    logProxyHealth(proxyPool, logger);
+    await closeBrowser(browser, logger);
+  }
+
+  return { organizations, rawData, ...(search && { search }) };
+}
+
+// Run every query of a batch and merge them into one list-mode result, de-duplicating firms
+// across queries and recording which queries matched each firm
+export async function scrapeSearchBatch(options: ScraperOptions): Promise<{
+  organizations: ScrapedOrganization[];
+  // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
+  rawData: any[];
+  search: SearchMetadata;
+}> {
+  const logger = new Logger();
+  const queries = options.queries ?? [];
+  const location = resolveLocation(options);
+  logger.info(
+    `Starting batch search: ${queries.length} queries, domain=${location.domain}, city=${location.city}, maxRecords=${options.maxRecords} per query`,
+  );
+
+  const { session, mainWorker, limiter, blockHandler, proxyPool } = await startRun(
+    options,
+    location,
+    logger,
+  );
+  const results: QueryResult[] = [];
+  const queryMeta: BatchQueryMetadata[] = [];
+  const seenIds = new Set<string>();
+
+  try {
+    for (const [index, query] of queries.entries()) {
+      logger.progress(index + 1, queries.length, `Searching: "${query}"`);
+      const { items, search } = await collectQueryResults(
+        mainWorker.page,
+        query,
+        location,
+        options,
+        logger,
+        limiter,
+        blockHandler,
+      );
+      const newFirms = items.filter((item) => !seenIds.has(item.firmId)).length;
+      for (const item of items) seenIds.add(item.firmId);
+
+      results.push({ query, items });
+      queryMeta.push({
+        query,
+        results: items.length,
+        newFirms,
+        ...(search.reportedTotal !== undefined && { reportedTotal: search.reportedTotal }),
+        ...(search.pagesVisited !== undefined && { pagesVisited: search.pagesVisited }),
+      });
+      logger.info(`"${query}": ${items.length} results, ${newFirms} new`);
+    }
+  } finally {
+    logProxyHealth(proxyPool, logger);
+    await closeBrowser(session.browser, logger);
+  }
+
+  const merged = mergeQueryResults(results);
+  const organizations = merged.map(({ item, matchedQueries }) => ({
+    ...buildListOrganization(item, logger, location.language),
+    matchedQueries,
+  }));
+  const rawData = merged.map(({ item, matchedQueries }) =>
+    withWorkerInfo({ ...item, matchedQueries }, mainWorker),
+  );
+  logger.info(
+    `Batch search complete: ${organizations.length} unique firms from ${queries.length} queries`,
+  );
+
+  return {
+    organizations,
+    rawData,
+    search: {
+      pagesVisited: queryMeta.reduce((sum, meta) => sum + (meta.pagesVisited ?? 0), 0),
+      ...(hasSearchFilters(options.searchFilters) && { filters: options.searchFilters }),
+      queries: queryMeta,
+    },
+  };
+}
+
+// Chain from the target's org ID, or resolved through one of its branches
+async function resolveBranchesTarget(
+  run: ScrapeRun,
+  options: BranchScraperOptions,
+  location: ScrapeLocation,
+  logger: Logger,
+): Promise<ChainInfo | null> {
+  const { orgId, firmId } = options.branches;
+  if (orgId) return { orgId };
+  if (!firmId) throw new Error('Branches mode requires a firm ID or an org ID');
+
+  logger.info(`Resolving chain of firm ${firmId}`);
+  const { session, mainWorker, limiter, blockHandler } = run;
+  return await withRetry(
+    async () =>
+      runOnWorker(session, mainWorker, logger, ({ page }) =>
+        resolveChain(page, firmId, location, logger, limiter),
+      ),
+    options.maxRetries,
+    logger,
+    `Resolving chain of firm ${firmId}`,
+    (error) => onWorkerBlocked(session, mainWorker, blockHandler, error, logger),
+  );
+}
+
+// Enumerate every branch of a chain across the requested cities and scrape them as one batch
+export async function scrapeChainBranches(options: BranchScraperOptions): Promise<{
+  organizations: ScrapedOrganization[];
+  // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
+  rawData: any[];
+  chain?: ChainManifest;
+}> {
+  const logger = new Logger();
+  const repository = new ScraperRepository(logger);
+  const location = resolveLocation(options);
+  const cities = resolveBranchCities(options.branches, location);
+  logger.info(
+    `Starting branches crawl: ${options.branches.orgId ? `org ${options.branches.orgId}` : `firm ${options.branches.firmId}`}, cities=${cities.join(',')}, mode=${options.scrapingMode}, maxRecords=${options.maxRecords}`,
+  );
+
+  const run = await startRun(options, location, logger);
+  const { session, mainWorker, limiter, blockHandler, proxyPool } = run;
+  const knownReviews = await loadKnownReviews(options, repository, logger);
+  const organizations: ScrapedOrganization[] = [];
+  // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
+  const rawData: any[] = [];
+
+  try {
+    const chain = await resolveBranchesTarget(run, options, location, logger);
+    if (!chain) {
+      logger.error('Could not resolve the chain to crawl');
+      return { organizations, rawData };
+    }
+    logger.info(
+      `Chain ${chain.orgName ?? chain.orgId}${chain.branchCount !== undefined ? ` (2GIS reports ${chain.branchCount} branches)` : ''}`,
+    );
+
+    // Listing stays on the first worker's proxy; blocks there pause the run
+    const found = await collectChainBranches(
+      mainWorker.page,
+      chain,
+      cities,
+      location,
+      options,
+      logger,
+      limiter,
+      blockHandler,
+    );
+
+    // Firm pages are opened under the city they were listed in
+    for (const { city, firmIds } of found) {
+      const cityLocation = { ...location, city };
+      const batch = await scrapeFirms(
+        session,
+        firmIds,
+        cityLocation,
+        { ...options, ...cityLocation },
+        logger,
+        limiter,
+        blockHandler,
+        knownReviews,
+      );
+      organizations.push(...batch.organizations);
+      rawData.push(...batch.rawData);
+    }
 
-        logger.progress(i + 1, totalToScrape, `Processing: ${url.split('/').pop()}`);
+    const manifest = buildChainManifest(chain, found, organizations);
+    logger.info(
+      `Branches crawl complete: ${manifest.scrapedFirmIds.length} succeeded, ${manifest.failedFirmIds.length} failed`,
+    );
+    return { organizations, rawData, chain: manifest };
+  } finally {
+    logProxyHealth(proxyPool, logger);
+    await closeBrowser(session.browser, logger);
+  }
+}
+
+// Crawl the review history of each author across organizations; output keeps authorIds order
+export async function scrapeAuthors(options: AuthorScraperOptions): Promise<{
+  authors: ReviewAuthor[];
+  // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
+  rawData: any[];
+}> {
+  const logger = new Logger();
+  const location = resolveLocation(options);
+  logger.info(
+    `Starting author crawl: ${options.authorIds.length} authors, domain=${location.domain}, city=${location.city}, reviews=${options.maxReviewsPerAuthor}, concurrency=${options.concurrency ?? 1}`,
+  );
+
+  const { session, limiter, blockHandler, proxyPool } = await startRun(options, location, logger);
+  const authors: ReviewAuthor[] = [];
+  // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
+  const rawData: any[] = [];
+
+  try {
+    const results = await runWorkerPool(
+      session.workers,
+      options.authorIds,
+      async (worker, authorId, index) => {
+        logger.progress(index + 1, options.authorIds.length, `Processing author: ${authorId}`);
 
-        // Use retry wrapper for each firm page
         const result = await withRetry(
-          async () => scrapeSingleOrganization(page, url, logger, options),
+          async () =>
+            runOnWorker(session, worker, logger, async ({ page }) => {
+              const scraped = await scrapeAuthorReviews(
+                page,
+                authorId,
+                options.maxReviewsPerAuthor,
+                logger,
+                location,
+                limiter,
+              );
+              return {
+                ...scraped,
+                rawData: withWorkerInfo({ authorId, pages: scraped.rawData }, worker),
+              };
+            }),
           options.maxRetries,
           logger,
-          'Scraping organization',
+          `Scraping author ${authorId}`,
+          (error) => onWorkerBlocked(session, worker, blockHandler, error, logger),
         );
 
         if (result) {
-          organizations.push(result.organization);
-          rawData.push(result.rawData);
           logger.success(
-            `${result.organization.name} | Phone: ${result.organization.phone ?? '-'} | Rating: ${result.organization.rating ?? '-'}`,
+            `${result.author.name ?? authorId} | Reviews: ${result.author.reviews.length}${result.author.reviewCount !== undefined ? ` of ${result.author.reviewCount}` : ''} | Organizations: ${result.author.organizationCount}`,
           );
-          successCount++;
         } else {
-          failureCount++;
+          logger.error(`Failed to scrape author ${authorId}`);
         }
-      }
-    }
+        return result;
+      },
+    );
 
-    logger.info(`Scraping complete: ${successCount} succeeded, ${failureCount} failed`);
+    for (const result of results) {
+      if (!result) continue;
+      authors.push(result.author);
+      rawData.push(result.rawData);
+    }
+    logger.info(
+      `Author crawl complete: ${authors.length} succeeded, ${options.authorIds.length - authors.length} failed`,
+    );
   } finally {
-    await closeBrowser(browser, logger);
+    logProxyHealth(proxyPool, logger);
+    await closeBrowser(session.browser, logger);
   }
 
-  return { organizations, rawData };
+  return { authors, rawData };
 }
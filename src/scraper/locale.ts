@@ -0,0 +1,111 @@
+import { DEFAULT_CITY, DEFAULT_DOMAIN } from '../config.js';
+import { UnsupportedLocaleError } from '../errors.js';
+import type { Language, ScrapeLocation } from '../types/index.js';
+
+export interface DomainConfig {
+  country: string;
+  defaultCity: string;
+  defaultLanguage: Language;
+  languages: readonly Language[];
+  timezone: string; // IANA timezone of the domain's main city
+}
+
+// UI strings the scraper relies on, per interface language
+export interface UiStrings {
+  paymentMethods: string; // attribute group name for payment methods
+  loadMore: string; // "Load more" button on the reviews tab
+}
+
+export const SITE_DOMAINS: Record<string, DomainConfig> = {
+  '2gis.ru': {
+    country: 'RU',
+    defaultCity: DEFAULT_CITY,
+    defaultLanguage: 'ru',
+    languages: ['ru'],
+    timezone: 'Europe/Moscow',
+  },
+  '2gis.kz': {
+    country: 'KZ',
+    defaultCity: 'almaty',
+    defaultLanguage: 'ru',
+    languages: ['ru', 'kk'],
+    timezone: 'Asia/Almaty',
+  },
+  '2gis.kg': {
+    country: 'KG',
+    defaultCity: 'bishkek',
+    defaultLanguage: 'ru',
+    languages: ['ru'],
+    timezone: 'Asia/Bishkek',
+  },
+  '2gis.uz': {
+    country: 'UZ',
+    defaultCity: 'tashkent',
+    defaultLanguage: 'ru',
+    languages: ['ru'],
+    timezone: 'Asia/Tashkent',
+  },
+  '2gis.ae': {
+    country: 'AE',
+    defaultCity: 'dubai',
+    defaultLanguage: 'en',
+    languages: ['en', 'ar'],
+    timezone: 'Asia/Dubai',
+  },
+};
+
+export const UI_STRINGS: Record<Language, UiStrings> = {
+  ru: { paymentMethods: 'Способы оплаты', loadMore: 'Загрузить ещё' },
+  en: { paymentMethods: 'Payment methods', loadMore: 'Load more' },
+  kk: { paymentMethods: 'Төлем тәсілдері', loadMore: 'Тағы жүктеу' },
+  ar: { paymentMethods: 'طرق الدفع', loadMore: 'تحميل المزيد' },
+};
+
+export function isSupportedDomain(domain: string): boolean {
+  return domain in SITE_DOMAINS;
+}
+
+export function isSupportedLanguage(language: string): language is Language {
+  return language in UI_STRINGS;
+}
+
+// Partially specified location, e.g. from CLI options or list file metadata
+export interface LocationHints {
+  domain?: string | undefined;
+  city?: string | undefined;
+  language?: string | undefined;
+}
+
+// Resolve domain, city and language: explicit options first, then list file, then domain defaults
+export function resolveLocation(options: LocationHints, listData?: LocationHints): ScrapeLocation {
+  const domain = options.domain ?? listData?.domain ?? DEFAULT_DOMAIN;
+  const config = SITE_DOMAINS[domain];
+  if (!config) {
+    throw new UnsupportedLocaleError(`Unsupported 2GIS domain: ${domain}`, domain);
+  }
+
+  const language = options.language ?? listData?.language ?? config.defaultLanguage;
+  if (!isSupportedLanguage(language)) {
+    throw new UnsupportedLocaleError(`Unsupported interface language: ${language}`, language);
+  }
+
+  return {
+    domain,
+    city: options.city ?? listData?.city ?? config.defaultCity,
+    language,
+  };
+}
+
+export function getUiStrings(language: Language = 'ru'): UiStrings {
+  return UI_STRINGS[language];
+}
+
+// Browser locale (Accept-Language / navigator.language), e.g. ru-RU, kk-KZ, en-AE
+export function getBrowserLocale(location: ScrapeLocation): string {
+  const country = SITE_DOMAINS[location.domain]?.country ?? 'RU';
+  return `${location.language}-${country}`;
+}
+
+export function getBrowserTimezone(location: ScrapeLocation): string {
+  return SITE_DOMAINS[location.domain]?.timezone ?? 'Europe/Moscow';
+}
@@ -0,0 +1,204 @@
+import type { Page, Response } from 'playwright';
+import { BLOCK_HANDLING, NETWORK_CAPTURE } from '../config.js';
+import { BlockedPageError } from '../errors.js';
+import type { Logger } from '../utils.js';
+import type { RateLimiter } from './rate-limiter.js';
+
+// Parsed catalog API response: { meta: { code }, result: { items, total } }
+export interface CatalogResponse {
+  url: string;
+  kind: 'byid' | 'search';
+  // biome-ignore lint/suspicious/noExplicitAny: 2GIS API item structure is dynamic
+  items: any[];
+  total?: number;
+  // biome-ignore lint/suspicious/noExplicitAny: Store raw API response
+  body: any;
+}
+
+export interface CapturedItem {
+  // biome-ignore lint/suspicious/noExplicitAny: 2GIS API item structure is dynamic
+  item: any;
+  // biome-ignore lint/suspicious/noExplicitAny: Store raw API response
+  body: any;
+}
+
+export interface CollectedApiResponse {
+  url: string;
+  // biome-ignore lint/suspicious/noExplicitAny: Raw API JSON is untyped
+  body: any;
+}
+
+export interface ApiResponseCollector {
+  responses: CollectedApiResponse[];
+  stop: () => void;
+}
+
+export function isCatalogApiUrl(url: string): boolean {
+  return NETWORK_CAPTURE.urlPattern.test(url);
+}
+
+// API item IDs may carry a hash suffix: "70000001044609041_AbCd..."
+export function apiItemFirmId(item: { id?: unknown } | undefined): string | undefined {
+  const id = item?.id;
+  return typeof id === 'string' || typeof id === 'number' ? String(id).split('_')[0] : undefined;
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: Raw API JSON is untyped
+export function parseCatalogResponse(url: string, body: any): CatalogResponse | null {
+  if (!isCatalogApiUrl(url) || body?.meta?.code !== 200) return null;
+  const items = body?.result?.items;
+  if (!Array.isArray(items)) return null;
+
+  const total = body.result.total;
+  return {
+    url,
+    kind: /\/items\/byid\b/.test(url) ? 'byid' : 'search',
+    items,
+    ...(typeof total === 'number' && { total }),
+    body,
+  };
+}
+
+// Collects catalog API JSON the page itself requests; cleared on every navigation
+export class ApiResponseCapture {
+  private responses: CatalogResponse[] = [];
+  private waiters = new Set<() => void>();
+
+  constructor(private logger?: Logger) {}
+
+  attach(page: Page): void {
+    page.on('response', (response) => {
+      void this.handleResponse(response);
+    });
+  }
+
+  // biome-ignore lint/suspicious/noExplicitAny: Raw API JSON is untyped
+  record(url: string, body: any): boolean {
+    const parsed = parseCatalogResponse(url, body);
+    if (!parsed) return false;
+
+    this.responses.push(parsed);
+    if (this.responses.length > NETWORK_CAPTURE.maxResponses) {
+      this.responses.shift();
+    }
+    this.logger?.debug(`Captured catalog API response (${parsed.items.length} items): ${url}`);
+    for (const notify of this.waiters) notify();
+    return true;
+  }
+
+  clear(): void {
+    this.responses = [];
+  }
+
+  // Latest captured item for the firm, from any catalog response
+  findItem(firmId: string): CapturedItem | undefined {
+    for (let i = this.responses.length - 1; i >= 0; i--) {
+      const response = this.responses[i];
+      const item = response?.items.find((candidate) => apiItemFirmId(candidate) === firmId);
+      if (response && item) return { item, body: response.body };
+    }
+    return undefined;
+  }
+
+  // Total reported by the latest search response
+  reportedTotal(): number | undefined {
+    const searches = this.responses.filter((r) => r.kind === 'search' && r.total !== undefined);
+    return searches[searches.length - 1]?.total;
+  }
+
+  // Resolve once an item for the firm is captured, or undefined after the timeout
+  async waitForItem(firmId: string, timeoutMs: number): Promise<CapturedItem | undefined> {
+    const found = this.findItem(firmId);
+    if (found) return found;
+
+    return await new Promise((resolve) => {
+      const finish = () => {
+        clearTimeout(timer);
+        this.waiters.delete(check);
+        resolve(this.findItem(firmId));
+      };
+      const check = () => {
+        if (this.findItem(firmId)) finish();
+      };
+      const timer = setTimeout(finish, timeoutMs);
+      this.waiters.add(check);
+    });
+  }
+
+  private async handleResponse(response: Response): Promise<void> {
+    const url = response.url();
+    if (!isCatalogApiUrl(url) || response.status() !== 200) return;
+    try {
+      this.record(url, await response.json());
+    } catch (e) {
+      this.logger?.debug(`Failed to read catalog API response ${url}: ${e}`);
+    }
+  }
+}
+
+const captures = new WeakMap<Page, ApiResponseCapture>();
+
+// Capture attached to the page, created on first use
+export function getApiCapture(page: Page, logger?: Logger): ApiResponseCapture {
+  let capture = captures.get(page);
+  if (!capture) {
+    capture = new ApiResponseCapture(logger);
+    capture.attach(page);
+    captures.set(page, capture);
+  }
+  return capture;
+}
+
+// Collect JSON of the page's own API responses whose URL matches, until stopped
+export function collectApiResponses(
+  page: Page,
+  matches: (url: string) => boolean,
+): ApiResponseCollector {
+  const responses: CollectedApiResponse[] = [];
+  const onResponse = (response: Response) => {
+    if (!matches(response.url()) || response.status() !== 200) return;
+    response
+      .json()
+      .then((body) => responses.push({ url: response.url(), body }))
+      .catch(() => {});
+  };
+  page.on('response', onResponse);
+  return { responses, stop: () => page.off('response', onResponse) };
+}
+
+// Fetch an API URL from inside the page, so origin and headers match the site's own calls
+export async function fetchApiJson(
+  page: Page,
+  url: string,
+  limiter?: RateLimiter,
+): Promise<unknown> {
+  await limiter?.acquire(page);
+
+  const start = Date.now();
+  let result: { status: number; body: unknown };
+  try {
+    result = await page.evaluate(async (url) => {
+      const response = await fetch(url);
+      return { status: response.status, body: response.ok ? await response.json() : null };
+    }, url);
+  } catch (error) {
+    limiter?.recordFailure();
+    throw error;
+  }
+
+  if ((BLOCK_HANDLING.blockedStatuses as readonly number[]).includes(result.status)) {
+    limiter?.recordFailure();
+    throw new BlockedPageError(
+      `API request blocked: HTTP ${result.status}`,
+      url,
+      `HTTP ${result.status}`,
+    );
+  }
+  if (result.status >= 400) {
+    limiter?.recordFailure();
+    throw new Error(`API returned HTTP ${result.status}: ${url}`);
+  }
+
+  limiter?.recordSuccess(Date.now() - start);
+  return result.body;
+}
@@ -0,0 +1,174 @@
+import type { Page } from 'playwright';
+import { PHOTO_API } from '../config.js';
+import { BlockedPageError } from '../errors.js';
+import type {
+  OrganizationPhoto,
+  PhotoAlbum,
+  PhotoCategory,
+  ScrapeLocation,
+} from '../types/index.js';
+import type { Logger } from '../utils.js';
+import { DEFAULT_NAVIGATION_TIMEOUT } from './constants.js';
+import { gotoPage, withImagesAllowed } from './helpers.js';
+import { collectApiResponses, fetchApiJson } from './network.js';
+import type { RateLimiter } from './rate-limiter.js';
+import { mapReviewPhoto } from './review-api.js';
+import { buildPhotosUrl } from './urls.js';
+
+// One page of the photo API
+export interface PhotoApiPage {
+  photos: OrganizationPhoto[];
+  nextLink?: string;
+  total?: number;
+}
+
+export function isPhotoApiUrl(url: string): boolean {
+  return PHOTO_API.urlPattern.test(url);
+}
+
+// First category whose keywords appear in any of the labels (album name/code, caption)
+export function categorizePhoto(...labels: (string | undefined)[]): PhotoCategory {
+  const text = labels.filter(Boolean).join(' ').toLowerCase();
+  if (!text) return 'other';
+  for (const [category, keywords] of Object.entries(PHOTO_API.categories)) {
+    if (keywords.some((keyword) => text.includes(keyword))) return category as PhotoCategory;
+  }
+  return 'other';
+}
+
+// Albums from the card's external_content, where photoCount also comes from
+// biome-ignore lint/suspicious/noExplicitAny: 2GIS item data structure is dynamic
+export function extractPhotoAlbums(item: any): PhotoAlbum[] {
+  if (!Array.isArray(item?.external_content)) return [];
+  return (
+    item.external_content
+      // biome-ignore lint/suspicious/noExplicitAny: Photo content data from 2GIS
+      .filter((c: any) => c?.type === 'photo_album')
+      // biome-ignore lint/suspicious/noExplicitAny: Photo content data from 2GIS
+      .map((c: any): PhotoAlbum => {
+        const id = c.id ?? c.subtype ?? c.code;
+        const name = c.label ?? c.name ?? c.title;
+        return {
+          ...(id !== undefined && { id: String(id) }),
+          ...(name && { name }),
+          category: categorizePhoto(name, c.subtype, c.code),
+          ...(typeof c.count === 'number' && { count: c.count }),
+        };
+      })
+  );
+}
+
+// Same image fields as review photos, plus caption, album and upload date
+// biome-ignore lint/suspicious/noExplicitAny: 2GIS photo data structure is dynamic
+export function mapOrganizationPhoto(raw: any): OrganizationPhoto | undefined {
+  const image = mapReviewPhoto(raw);
+  if (!image) return undefined;
+
+  const album = raw.album ?? {};
+  const albumId = album.id ?? album.code ?? raw.album_id ?? raw.album_code;
+  const albumName = album.name ?? album.title ?? raw.album_name;
+  const caption = raw.description ?? raw.caption ?? raw.title;
+  const uploadedAt = raw.date_created ?? raw.created_at ?? raw.upload_date;
+  return {
+    ...image,
+    ...(caption && { caption }),
+    category: categorizePhoto(albumName, albumId && String(albumId), caption),
+    ...(albumId !== undefined && { albumId: String(albumId) }),
+    ...(uploadedAt && { uploadedAt }),
+  };
+}
+
+// Photos sit in result.items, items or photos depending on the endpoint
+// biome-ignore lint/suspicious/noExplicitAny: Raw API JSON is untyped
+export function parsePhotoResponse(body: any): PhotoApiPage | null {
+  if (body?.meta?.code !== undefined && body.meta.code !== 200) return null;
+  const items = body?.result?.items ?? body?.items ?? body?.photos;
+  if (!Array.isArray(items)) return null;
+
+  const nextLink = body.meta?.next_link;
+  const total = body.meta?.total_count ?? body.result?.total;
+  return {
+    photos: items
+      .map(mapOrganizationPhoto)
+      .filter(
+        (photo: OrganizationPhoto | undefined): photo is OrganizationPhoto => photo !== undefined,
+      ),
+    ...(typeof nextLink === 'string' && nextLink && { nextLink }),
+    ...(typeof total === 'number' && { total }),
+  };
+}
+
+// Add photos from a photo API response and the pages after it, up to maxPhotos
+async function followPhotoPages(
+  page: Page,
+  firstBody: unknown,
+  photos: Map<string, OrganizationPhoto>,
+  maxPhotos: number,
+  limiter?: RateLimiter,
+): Promise<void> {
+  let body = firstBody;
+  while (body && photos.size < maxPhotos) {
+    const current = parsePhotoResponse(body);
+    if (!current) return;
+
+    const sizeBefore = photos.size;
+    for (const photo of current.photos) {
+      if (photos.size >= maxPhotos) break;
+      photos.set(photo.id, photo);
+    }
+    if (!current.nextLink || photos.size === sizeBefore) return;
+    body = await fetchApiJson(page, current.nextLink, limiter);
+  }
+}
+
+// Open the photos tab with images unblocked, take the gallery's photo requests and
+// follow their cursor. Failures other than blocks keep the photos collected so far.
+export async function scrapeOrganizationPhotos(
+  page: Page,
+  firmId: string,
+  maxPhotos: number,
+  logger: Logger,
+  location?: ScrapeLocation,
+  limiter?: RateLimiter,
+): Promise<OrganizationPhoto[]> {
+  const photos = new Map<string, OrganizationPhoto>();
+  const collector = collectApiResponses(page, isPhotoApiUrl);
+
+  try {
+    const url = buildPhotosUrl(firmId, location?.city, location?.domain);
+    logger.debug(`Navigating to photos: ${url}`);
+    const response = await withImagesAllowed(page, async () => {
+      await gotoPage(page, url, DEFAULT_NAVIGATION_TIMEOUT, limiter);
+      return await page
+        .waitForResponse((r) => isPhotoApiUrl(r.url()) && r.status() === 200, {
+          timeout: PHOTO_API.firstPageTimeoutMs,
+        })
+        .catch(() => null);
+    });
+
+    // The collector stores a body only once its own json() resolves, so the awaited
+    // response stands in for the first page when nothing is collected yet
+    const bodies =
+      collector.responses.length > 0
+        ? collector.responses.map(({ body }) => body)
+        : [await response?.json().catch(() => null)].filter(Boolean);
+
+    // Albums may load in separate requests; each one is followed to its end
+    for (const body of bodies) {
+      await followPhotoPages(page, body, photos, maxPhotos, limiter);
+    }
+
+    if (bodies.length === 0) {
+      logger.warn(`No photo API request seen for firm ${firmId}`);
+    }
+  } catch (e) {
+    // Let blocked pages reach the retry wrapper so the run can pause and resume
+    if (e instanceof BlockedPageError) throw e;
+    const errorMsg = e instanceof Error ? e.message : 'Unknown error';
+    logger.warn(`Failed to extract photos for firm ${firmId}: ${errorMsg}`);
+  } finally {
+    collector.stop();
+  }
+
+  return [...photos.values()];
+}
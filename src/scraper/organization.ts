@@ -1,4 +1,4 @@
-import type { ScrapedOrganization } from '../types/index.js';
+import type { Language, Rubric, ScrapedOrganization } from '../types/index.js';
 import type { Logger } from '../utils.js';
 import { findContact } from '../utils.js';
 import {
@@ -7,10 +7,17 @@ import {
   extractMetroStations,
   extractReviewSummary,
 } from './extractors.js';
+import { getUiStrings } from './locale.js';
+import { mapRubric } from './rubrics.js';
 
 // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Comprehensive data extraction
-// biome-ignore lint/suspicious/noExplicitAny: 2GIS data structure is dynamic
-export function extractOrganization(item: any, logger: Logger): ScrapedOrganization {
+export function extractOrganization(
+  // biome-ignore lint/suspicious/noExplicitAny: 2GIS data structure is dynamic
+  item: any,
+  logger: Logger,
+  language: Language = 'ru',
+): ScrapedOrganization {
+  const strings = getUiStrings(language);
   try {
     // Extract contacts with error handling
     const phone = findContact(item, 'phone');
@@ -71,11 +78,12 @@ export function extractOrganization(item: any, logger: Logger): ScrapedOrganizat
     }
 
     // Extract rubrics with error handling
-    let rubrics: string[] = [];
+    let rubrics: Rubric[] = [];
     try {
       if (Array.isArray(item.rubrics)) {
-        // biome-ignore lint/suspicious/noExplicitAny: Rubrics data from 2GIS
-        rubrics = item.rubrics.map((r: any) => r.name).filter((n: any) => typeof n === 'string');
+        rubrics = item.rubrics
+          .map(mapRubric)
+          .filter((rubric: Rubric | undefined): rubric is Rubric => rubric !== undefined);
       }
     } catch (e) {
       logger.warn(`Failed to extract rubrics: ${e}`);
@@ -99,7 +107,7 @@ export function extractOrganization(item: any, logger: Logger): ScrapedOrganizat
         const feats: string[] = [];
 
         for (const group of item.attribute_groups) {
-          if (group.name === 'Способы оплаты' && Array.isArray(group.attributes)) {
+          if (group.name === strings.paymentMethods && Array.isArray(group.attributes)) {
             // biome-ignore lint/suspicious/noExplicitAny: Attribute data from 2GIS
             payments.push(...group.attributes.map((a: any) => a.name).filter(Boolean));
           } else if (Array.isArray(group.attributes)) {
@@ -0,0 +1,115 @@
+import { createHash } from 'node:crypto';
+import type { APIRequestContext } from 'playwright';
+import { PHOTO_API, REVIEW_PHOTOS } from '../config.js';
+import { PHOTOS_PATHS, PhotoRepository } from '../repos/index.js';
+import type { OrganizationPhoto, Review, ReviewPhoto } from '../types/index.js';
+import type { Logger } from '../utils.js';
+
+// Image extension from the URL path, jpg when there is none
+export function photoExtension(url: string): string {
+  try {
+    return (
+      new URL(url).pathname.match(/\.(jpe?g|png|webp|gif)$/i)?.[1]?.toLowerCase() ??
+      REVIEW_PHOTOS.defaultExtension
+    );
+  } catch {
+    // Keep the default extension for malformed URLs
+    return REVIEW_PHOTOS.defaultExtension;
+  }
+}
+
+// "<ownerId>-<photoId>.<ext>", extension taken from the URL path
+export function photoFileName(ownerId: string, photo: Pick<ReviewPhoto, 'id' | 'url'>): string {
+  const safe = (value: string) => value.replace(/[^\w-]/g, '_');
+  return `${safe(ownerId)}-${safe(photo.id)}.${photoExtension(photo.url)}`;
+}
+
+// Fetch one image through the context's request API, which page.route() image blocking
+// does not intercept. With maxBytes, oversized files are rejected by header before reading.
+export async function fetchImage(
+  request: APIRequestContext,
+  url: string,
+  maxBytes?: number,
+): Promise<Buffer> {
+  const response = await request.get(url, { timeout: REVIEW_PHOTOS.timeoutMs });
+  if (!response.ok()) {
+    throw new Error(`HTTP ${response.status()}`);
+  }
+  if (maxBytes !== undefined && Number(response.headers()['content-length']) > maxBytes) {
+    throw new Error(`File larger than ${maxBytes} bytes`);
+  }
+  const body = await response.body();
+  if (maxBytes !== undefined && body.length > maxBytes) {
+    throw new Error(`File larger than ${maxBytes} bytes`);
+  }
+  return body;
+}
+
+// Download review photos to data/raw/review-photos, setting localPath on each saved photo.
+// Already downloaded files are reused; returns the number of photos with a local file.
+export async function downloadReviewPhotos(
+  request: APIRequestContext,
+  reviews: Review[],
+  logger: Logger,
+  store: PhotoRepository = new PhotoRepository(),
+  maxPhotos: number = REVIEW_PHOTOS.maxPerOrg,
+): Promise<number> {
+  let saved = 0;
+
+  for (const review of reviews) {
+    for (const photo of review.photos ?? []) {
+      if (saved >= maxPhotos) {
+        logger.debug(`Reached review photo cap (${maxPhotos}) for this organization`);
+        return saved;
+      }
+
+      const fileName = photoFileName(review.id, photo);
+      try {
+        photo.localPath =
+          (await store.find(PHOTOS_PATHS.reviews, fileName)) ??
+          (await store.save(PHOTOS_PATHS.reviews, fileName, await fetchImage(request, photo.url)));
+        saved++;
+      } catch (e) {
+        logger.debug(`Failed to download review photo ${photo.id}: ${e}`);
+      }
+    }
+  }
+
+  return saved;
+}
+
+// Download organization photos to data/raw/org-photos as "<sha256>.<ext>", so the same image
+// listed in several albums or organizations is stored once. Sets localPath and contentHash;
+// returns the number of photos with a local file.
+export async function downloadOrganizationPhotos(
+  request: APIRequestContext,
+  photos: OrganizationPhoto[],
+  logger: Logger,
+  store: PhotoRepository = new PhotoRepository(),
+  maxBytes: number = PHOTO_API.maxFileBytes,
+): Promise<number> {
+  const byUrl = new Map<string, Pick<OrganizationPhoto, 'localPath' | 'contentHash'>>();
+  let saved = 0;
+
+  for (const photo of photos) {
+    try {
+      let file = byUrl.get(photo.url);
+      if (!file) {
+        const body = await fetchImage(request, photo.url, maxBytes);
+        const contentHash = createHash('sha256').update(body).digest('hex');
+        const fileName = `${contentHash}.${photoExtension(photo.url)}`;
+        const localPath =
+          (await store.find(PHOTOS_PATHS.organizations, fileName)) ??
+          (await store.save(PHOTOS_PATHS.organizations, fileName, body));
+        file = { localPath, contentHash };
+        byUrl.set(photo.url, file);
+      }
+      Object.assign(photo, file);
+      saved++;
+    } catch (e) {
+      logger.debug(`Failed to download photo ${photo.id}: ${e}`);
+    }
+  }
+
+  return saved;
+}
@@ -0,0 +1,21 @@
+// Run items through a fixed set of workers sharing one queue.
+// Each worker takes the next unprocessed item as soon as it is free; results keep input order.
+export async function runWorkerPool<W, T, R>(
+  workers: W[],
+  items: T[],
+  task: (worker: W, item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  await Promise.all(
+    workers.map(async (worker) => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        results[index] = await task(worker, items[index] as T, index);
+      }
+    }),
+  );
+
+  return results;
+}
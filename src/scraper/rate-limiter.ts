@@ -0,0 +1,124 @@
+import { RATE_LIMIT } from '../config.js';
+import type { Logger } from '../utils.js';
+import { sleep } from '../utils.js';
+
+export interface RateLimiterOptions {
+  minIntervalMs: number; // Minimum delay between navigations of the same page
+  jitterRatio: number; // Random +/- share of the interval, e.g. 0.3 => 70%..130%
+  requestsPerMinute: number; // Global budget across all pages, 0 = unlimited
+}
+
+export interface Clock {
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+}
+
+const systemClock: Clock = { now: () => Date.now(), sleep };
+
+// Shared navigation gate: per-page minimum interval with jitter, a global requests-per-minute
+// budget, and adaptive slowdown when responses get slow or start failing
+export class RateLimiter {
+  private nextSlotByWorker = new Map<unknown, number>();
+  private recentSlots: number[] = [];
+  private outcomes: Array<{ ok: boolean; responseTimeMs?: number }> = [];
+  private slowdown = 1;
+  private pausedUntil = 0;
+
+  constructor(
+    private options: RateLimiterOptions,
+    private logger?: Logger,
+    private clock: Clock = systemClock,
+  ) {}
+
+  get multiplier(): number {
+    return this.slowdown;
+  }
+
+  // Hold all navigations for the given time (e.g. after hitting a captcha)
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, this.clock.now() + ms);
+  }
+
+  resume(): void {
+    this.pausedUntil = 0;
+  }
+
+  // Wait until the worker (usually a Page) may issue its next navigation
+  async acquire(worker: unknown = this): Promise<void> {
+    while (this.clock.now() < this.pausedUntil) {
+      await this.clock.sleep(Math.min(this.pausedUntil - this.clock.now(), 1000));
+    }
+
+    const slot = this.reserveSlot(worker);
+    const waitMs = slot - this.clock.now();
+    if (waitMs > 0) {
+      await this.clock.sleep(waitMs);
+    }
+  }
+
+  recordSuccess(responseTimeMs: number): void {
+    this.recordOutcome({ ok: true, responseTimeMs });
+  }
+
+  recordFailure(): void {
+    this.recordOutcome({ ok: false });
+  }
+
+  // Reservation is synchronous, so concurrent callers never get the same slot
+  private reserveSlot(worker: unknown): number {
+    const now = this.clock.now();
+    let slot = Math.max(now, this.nextSlotByWorker.get(worker) ?? now);
+
+    const rpm = this.options.requestsPerMinute;
+    if (rpm > 0) {
+      this.recentSlots = this.recentSlots.filter((s) => s > now - 60000);
+      if (this.recentSlots.length >= rpm) {
+        const oldest = this.recentSlots[this.recentSlots.length - rpm] ?? now;
+        slot = Math.max(slot, oldest + 60000);
+      }
+      this.recentSlots.push(slot);
+      this.recentSlots.sort((a, b) => a - b);
+    }
+
+    this.nextSlotByWorker.set(worker, slot + this.nextInterval());
+    return slot;
+  }
+
+  private nextInterval(): number {
+    const { minIntervalMs, jitterRatio } = this.options;
+    const jitter = 1 + (Math.random() * 2 - 1) * jitterRatio;
+    return Math.max(0, Math.round(minIntervalMs * jitter * this.slowdown));
+  }
+
+  private recordOutcome(outcome: { ok: boolean; responseTimeMs?: number }): void {
+    this.outcomes.push(outcome);
+    if (this.outcomes.length > RATE_LIMIT.windowSize) {
+      this.outcomes.shift();
+    }
+    this.adjustSlowdown();
+  }
+
+  private adjustSlowdown(): void {
+    const failures = this.outcomes.filter((o) => !o.ok).length;
+    const failureRate = failures / this.outcomes.length;
+    const times = this.outcomes
+      .map((o) => o.responseTimeMs)
+      .filter((t): t is number => t !== undefined);
+    const avgResponseMs = times.length > 0 ? times.reduce((a, b) => a + b, 0) / times.length : 0;
+
+    const previous = this.slowdown;
+    if (failureRate > RATE_LIMIT.maxFailureRate || avgResponseMs > RATE_LIMIT.slowResponseMs) {
+      this.slowdown = Math.min(RATE_LIMIT.maxSlowdown, this.slowdown * RATE_LIMIT.slowdownFactor);
+    } else {
+      this.slowdown = Math.max(1, this.slowdown / RATE_LIMIT.slowdownFactor);
+    }
+
+    if (this.slowdown > previous) {
+      this.logger?.warn(
+        `Rate limiter: slowing down x${this.slowdown.toFixed(1)} (failure rate ${(failureRate * 100).toFixed(0)}%, avg response ${avgResponseMs.toFixed(0)}ms)`,
+      );
+    } else if (this.slowdown === 1 && previous > 1) {
+      this.logger?.info('Rate limiter: back to normal pace');
+    }
+  }
+}
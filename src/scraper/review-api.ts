@@ -0,0 +1,87 @@
+import { REVIEW_API } from '../config.js';
+import type { OfficialAnswer, Review, ReviewPhoto } from '../types/index.js';
+
+// One page of the reviews API: { meta: { code, total_count, next_link }, reviews: [...] }
+export interface ReviewApiPage {
+  reviews: Review[];
+  nextLink?: string;
+  total?: number;
+}
+
+export function isReviewApiUrl(url: string): boolean {
+  return REVIEW_API.urlPattern.test(url);
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: 2GIS review data structure is dynamic
+export function mapOfficialAnswer(raw: any): OfficialAnswer | undefined {
+  if (!raw?.text) return undefined;
+  const responder = raw.org_name ?? raw.author?.name;
+  return {
+    text: raw.text,
+    ...(raw.date_created && { dateCreated: raw.date_created }),
+    ...(responder && { responder }),
+  };
+}
+
+// Photos come with a full-size URL and sized previews: { id, url, preview_urls: { '320x': ... } }
+// biome-ignore lint/suspicious/noExplicitAny: 2GIS photo data structure is dynamic
+export function mapReviewPhoto(raw: any): ReviewPhoto | undefined {
+  const previews = raw?.preview_urls ?? {};
+  const url = raw?.url ?? previews.url ?? previews['1920x'];
+  if (!url || raw.id === undefined) return undefined;
+
+  const previewUrl = previews['320x'] ?? previews['640x'];
+  const width = raw.width ?? raw.size?.width;
+  const height = raw.height ?? raw.size?.height;
+  return {
+    id: String(raw.id),
+    url,
+    ...(previewUrl && { previewUrl }),
+    ...(typeof width === 'number' && { width }),
+    ...(typeof height === 'number' && { height }),
+  };
+}
+
+// Map a raw review (API or initialState, same shape) to a Review
+// biome-ignore lint/suspicious/noExplicitAny: 2GIS review data structure is dynamic
+export function mapReview(raw: any, id: string = String(raw?.id ?? '')): Review {
+  const officialAnswer = mapOfficialAnswer(raw.official_answer);
+  const rawPhotos = Array.isArray(raw.photos) ? raw.photos : [];
+  const photos = rawPhotos
+    .map(mapReviewPhoto)
+    .filter((photo: ReviewPhoto | undefined): photo is ReviewPhoto => photo !== undefined);
+  const photoCount = rawPhotos.length;
+  return {
+    id,
+    text: raw.text || '',
+    rating: raw.rating || 0,
+    dateCreated: raw.date_created || '',
+    dateEdited: raw.date_edited,
+    author: raw.user?.name,
+    authorId: raw.user?.id,
+    ...(typeof raw.user?.reviews_count === 'number' && {
+      authorReviewCount: raw.user.reviews_count,
+    }),
+    commentsCount: raw.comments_count,
+    source: raw.source ?? raw.provider,
+    likes: raw.likes_count,
+    dislikes: raw.dislikes_count,
+    ...(photoCount && { photoCount }),
+    ...(photos.length > 0 && { photos }),
+    ...(officialAnswer && { officialAnswer }),
+  };
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: Raw API JSON is untyped
+export function parseReviewApiResponse(body: any): ReviewApiPage | null {
+  if (body?.meta?.code !== 200 || !Array.isArray(body.reviews)) return null;
+
+  const nextLink = body.meta.next_link;
+  const total = body.meta.total_count;
+  return {
+    // biome-ignore lint/suspicious/noExplicitAny: 2GIS review data structure is dynamic
+    reviews: body.reviews.filter((r: any) => r?.id !== undefined).map((r: any) => mapReview(r)),
+    ...(typeof nextLink === 'string' && nextLink && { nextLink }),
+    ...(typeof total === 'number' && { total }),
+  };
+}
@@ -0,0 +1,86 @@
+import type { Page } from 'playwright';
+import { REVIEW_API } from '../config.js';
+import type { Review, ReviewComment } from '../types/index.js';
+import type { Logger } from '../utils.js';
+import { fetchApiJson } from './network.js';
+import type { RateLimiter } from './rate-limiter.js';
+
+export interface ReviewCommentsPage {
+  comments: ReviewComment[];
+  nextLink?: string;
+}
+
+// Comments endpoint for a review, reusing host, version, key and locale of a captured reviews URL:
+// .../2.0/branches/<firmId>/reviews?key=...&locale=ru_RU -> .../2.0/reviews/<reviewId>/comments?...
+export function buildCommentsUrl(reviewApiUrl: string, reviewId: string): string {
+  const source = new URL(reviewApiUrl);
+  const version = source.pathname.split('/')[1] ?? '2.0';
+  const url = new URL(
+    `/${version}/reviews/${encodeURIComponent(reviewId)}/comments`,
+    source.origin,
+  );
+
+  for (const param of ['key', 'locale']) {
+    const value = source.searchParams.get(param);
+    if (value) url.searchParams.set(param, value);
+  }
+  url.searchParams.set('limit', String(REVIEW_API.commentsPageSize));
+  return url.toString();
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: 2GIS comment data structure is dynamic
+export function mapComment(raw: any): ReviewComment {
+  return {
+    id: String(raw.id ?? ''),
+    text: raw.text || '',
+    dateCreated: raw.date_created || '',
+    ...(raw.user?.name && { author: raw.user.name }),
+    ...(raw.user?.id && { authorId: String(raw.user.id) }),
+  };
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: Raw API JSON is untyped
+export function parseCommentsResponse(body: any): ReviewCommentsPage | null {
+  if (body?.meta?.code !== 200 || !Array.isArray(body.comments)) return null;
+  const nextLink = body.meta.next_link;
+  return {
+    comments: body.comments.map(mapComment),
+    ...(typeof nextLink === 'string' && nextLink && { nextLink }),
+  };
+}
+
+// Fetch comment threads for reviews with comments, stopping at maxComments per organization
+export async function scrapeReviewComments(
+  page: Page,
+  reviews: Review[],
+  reviewApiUrl: string,
+  maxComments: number,
+  logger: Logger,
+  limiter?: RateLimiter,
+): Promise<number> {
+  let fetched = 0;
+
+  for (const review of reviews) {
+    if (fetched >= maxComments) {
+      logger.debug(`Reached comment cap (${maxComments}) for this organization`);
+      break;
+    }
+    if (!review.commentsCount) continue;
+
+    const comments: ReviewComment[] = [];
+    let link: string | undefined = buildCommentsUrl(reviewApiUrl, review.id);
+    while (link && fetched < maxComments) {
+      const result = parseCommentsResponse(await fetchApiJson(page, link, limiter));
+      if (!result) break;
+
+      const room = maxComments - fetched;
+      comments.push(...result.comments.slice(0, room));
+      fetched += Math.min(room, result.comments.length);
+      link = result.comments.length > 0 ? result.nextLink : undefined;
+    }
+
+    review.comments = comments;
+  }
+
+  return fetched;
+}
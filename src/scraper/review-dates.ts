@@ -0,0 +1,240 @@
+import type { Language, Review } from '../types/index.js';
+
+// Words of review dates as the site displays them, per interface language
+interface DateWords {
+  months: RegExp[]; // January..December, matched anywhere in the text
+  edited: RegExp; // "edited" marker appended to the date
+  today: RegExp;
+  yesterday: RegExp;
+  ago: RegExp; // Marks a relative date: "3 дня назад"
+  units: Array<[RegExp, RelativeUnit]>;
+}
+
+type RelativeUnit = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
+const DATE_WORDS: Record<Language, DateWords> = {
+  ru: {
+    months: [
+      /январ/,
+      /феврал/,
+      /март/,
+      /апрел/,
+      /ма[йя]/,
+      /июн/,
+      /июл/,
+      /август/,
+      /сентябр/,
+      /октябр/,
+      /ноябр/,
+      /декабр/,
+    ],
+    edited: /отредактирован\S*/,
+    today: /сегодня/,
+    yesterday: /вчера/,
+    ago: /назад/,
+    units: [
+      [/минут/, 'minute'],
+      [/час/, 'hour'],
+      [/д(ень|ня|ней)/, 'day'],
+      [/недел/, 'week'],
+      [/месяц/, 'month'],
+      [/год|лет/, 'year'],
+    ],
+  },
+  en: {
+    months: [
+      /\bjan/,
+      /\bfeb/,
+      /\bmar/,
+      /\bapr/,
+      /\bmay\b/,
+      /\bjun/,
+      /\bjul/,
+      /\baug/,
+      /\bsep/,
+      /\boct/,
+      /\bnov/,
+      /\bdec/,
+    ],
+    edited: /\bedited\b/,
+    today: /\btoday\b/,
+    yesterday: /\byesterday\b/,
+    ago: /\bago\b/,
+    units: [
+      [/\bminute/, 'minute'],
+      [/\bhour/, 'hour'],
+      [/\bday/, 'day'],
+      [/\bweek/, 'week'],
+      [/\bmonth/, 'month'],
+      [/\byear/, 'year'],
+    ],
+  },
+  kk: {
+    months: [
+      /қаңтар/,
+      /ақпан/,
+      /наурыз/,
+      /сәуір/,
+      /мамыр/,
+      /маусым/,
+      /шілде/,
+      /тамыз/,
+      /қыркүйек/,
+      /қазан/,
+      /қараша/,
+      /желтоқсан/,
+    ],
+    edited: /өңделген/,
+    today: /бүгін/,
+    yesterday: /кеше/,
+    ago: /бұрын/,
+    units: [
+      [/минут/, 'minute'],
+      [/сағат/, 'hour'],
+      [/күн/, 'day'],
+      [/апта/, 'week'],
+      // \b only knows ASCII letters, so the standalone word is matched with Unicode lookarounds
+      [/(?<!\p{L})ай(?!\p{L})/u, 'month'],
+      [/жыл/, 'year'],
+    ],
+  },
+  ar: {
+    months: [
+      /يناير/,
+      /فبراير/,
+      /مارس/,
+      /أبريل|ابريل/,
+      /مايو/,
+      /يونيو/,
+      /يوليو/,
+      /أغسطس|اغسطس/,
+      /سبتمبر/,
+      /أكتوبر|اكتوبر/,
+      /نوفمبر/,
+      /ديسمبر/,
+    ],
+    edited: /تم التعديل|معدل/,
+    today: /اليوم/,
+    yesterday: /أمس|امس/,
+    ago: /منذ/,
+    units: [
+      [/دقيق|دقائق/, 'minute'],
+      [/ساع/, 'hour'],
+      [/يوم|أيام|ايام/, 'day'],
+      [/أسبوع|أسابيع|اسبوع/, 'week'],
+      [/شهر|أشهر/, 'month'],
+      [/سنة|سنوات|عام/, 'year'],
+    ],
+  },
+};
+
+// API dates are already ISO 8601: 2025-11-02T12:30:00.000000+07:00
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+export interface DisplayDate {
+  date: string; // ISO 8601 calendar date, e.g. 2025-01-12
+  edited: boolean;
+}
+
+export function isIsoDate(text: string): boolean {
+  return ISO_DATE.test(text);
+}
+
+function toIsoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function shiftBack(now: Date, unit: RelativeUnit, count: number): Date {
+  const date = new Date(now);
+  switch (unit) {
+    case 'minute':
+      date.setUTCMinutes(date.getUTCMinutes() - count);
+      break;
+    case 'hour':
+      date.setUTCHours(date.getUTCHours() - count);
+      break;
+    case 'day':
+      date.setUTCDate(date.getUTCDate() - count);
+      break;
+    case 'week':
+      date.setUTCDate(date.getUTCDate() - count * 7);
+      break;
+    case 'month':
+      date.setUTCMonth(date.getUTCMonth() - count);
+      break;
+    case 'year':
+      date.setUTCFullYear(date.getUTCFullYear() - count);
+      break;
+  }
+  return date;
+}
+
+// "12 января 2025" (year defaults to the latest one not in the future)
+function parseAbsolute(text: string, words: DateWords, now: Date): string | undefined {
+  const month = words.months.findIndex((pattern) => pattern.test(text));
+  const day = Number(text.match(/(?<!\d)\d{1,2}(?!\d)/)?.[0]);
+  if (month < 0 || !day) return undefined;
+
+  const yearText = text.match(/(?<!\d)\d{4}(?!\d)/)?.[0];
+  let year = yearText ? Number(yearText) : now.getUTCFullYear();
+  if (!yearText && Date.UTC(year, month, day) > now.getTime()) year--;
+
+  const date = new Date(Date.UTC(year, month, day));
+  // Reject overflowing days like 31 February
+  return date.getUTCMonth() === month ? toIsoDay(date) : undefined;
+}
+
+// "сегодня", "вчера", "3 дня назад", "неделю назад"
+function parseRelative(text: string, words: DateWords, now: Date): string | undefined {
+  if (words.today.test(text)) return toIsoDay(now);
+  if (words.yesterday.test(text)) return toIsoDay(shiftBack(now, 'day', 1));
+  if (!words.ago.test(text)) return undefined;
+
+  const unit = words.units.find(([pattern]) => pattern.test(text))?.[1];
+  if (!unit) return undefined;
+  const count = Number(text.match(/\d+/)?.[0] ?? 1);
+  return toIsoDay(shiftBack(now, unit, count));
+}
+
+// Convert a displayed review date to an ISO calendar date, or null if it can't be read
+export function parseDisplayDate(
+  text: string,
+  language: Language = 'ru',
+  now: Date = new Date(),
+): DisplayDate | null {
+  const words = DATE_WORDS[language];
+  // Arabic-Indic digits to ASCII
+  const normalized = text
+    .toLowerCase()
+    .replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .trim();
+
+  const edited = words.edited.test(normalized);
+  const dateText = normalized.replace(words.edited, '');
+  const date = parseRelative(dateText, words, now) ?? parseAbsolute(dateText, words, now);
+  return date ? { date, edited } : null;
+}
+
+// Replace a displayed dateCreated with its ISO date, keeping the original in dateRaw.
+// The displayed date of an edited review is its edit date: it becomes dateEdited, and
+// dateCreated is flagged as approximate.
+export function normalizeReviewDate(
+  review: Review,
+  language?: Language,
+  now: Date = new Date(),
+): Review {
+  const raw = review.dateCreated;
+  if (!raw || isIsoDate(raw)) return review;
+
+  const parsed = parseDisplayDate(raw, language, now);
+  if (!parsed) return { ...review, dateRaw: raw, dateUnparsed: true };
+
+  const { dateUnparsed: _, ...rest } = review;
+  return {
+    ...rest,
+    dateCreated: parsed.date,
+    ...(parsed.edited && !review.dateEdited && { dateEdited: parsed.date }),
+    ...(parsed.edited && { dateCreatedApproximate: true }),
+    dateRaw: raw,
+  };
+}
@@ -0,0 +1,72 @@
+import { REVIEW_API } from '../config.js';
+import { InvalidReviewQueryError } from '../errors.js';
+import type { Review, ReviewQuery, ReviewSort } from '../types/index.js';
+
+export function isReviewSort(value: string): value is ReviewSort {
+  return value in REVIEW_API.sortValues;
+}
+
+export function parseReviewSort(value: string): ReviewSort {
+  if (!isReviewSort(value)) {
+    throw new InvalidReviewQueryError(
+      `Invalid review sort "${value}". Must be one of: ${Object.keys(REVIEW_API.sortValues).join(', ')}`,
+      value,
+    );
+  }
+  return value;
+}
+
+// Parse "1,2" into star ratings
+export function parseReviewRatings(value: string): number[] {
+  const ratings = value
+    .split(',')
+    .filter((r) => r.trim())
+    .map((r) => Number(r.trim()));
+
+  if (ratings.length === 0 || ratings.some((r) => !Number.isInteger(r) || r < 1 || r > 5)) {
+    throw new InvalidReviewQueryError(
+      `Invalid review ratings "${value}", expected comma-separated stars from 1 to 5`,
+      value,
+    );
+  }
+  return [...new Set(ratings)].sort((a, b) => a - b);
+}
+
+export function hasReviewQuery(query: ReviewQuery | undefined): query is ReviewQuery {
+  return Boolean(query?.sort || query?.ratings?.length || query?.withPhotos);
+}
+
+// Edit date if edited, else creation date
+export function lastChange(review: Review): string {
+  return review.dateEdited || review.dateCreated;
+}
+
+// Same reviews API request with the query's ordering and filters, starting from the first page
+export function applyReviewQuery(reviewApiUrl: string, query: ReviewQuery): string {
+  const url = new URL(reviewApiUrl);
+  for (const param of REVIEW_API.cursorParams) url.searchParams.delete(param);
+
+  if (query.sort) url.searchParams.set('sort_by', REVIEW_API.sortValues[query.sort]);
+  if (query.ratings?.length) url.searchParams.set(REVIEW_API.ratingParam, query.ratings.join(','));
+  if (query.withPhotos) url.searchParams.set(REVIEW_API.withPhotosParam, 'true');
+  return url.toString();
+}
+
+// Client-side check of the filters, in case the API ignores a parameter
+export function matchesReviewQuery(review: Review, query: ReviewQuery | undefined): boolean {
+  if (query?.ratings?.length && !query.ratings.includes(review.rating)) return false;
+  if (query?.withPhotos && !review.photoCount) return false;
+  return true;
+}
+
+// Local ordering for reviews that did not come from a sorted API response
+export function sortReviews(reviews: Review[], sort: ReviewSort | undefined): Review[] {
+  const byNewest = (a: Review, b: Review) => lastChange(b).localeCompare(lastChange(a));
+  const compare: Record<ReviewSort, (a: Review, b: Review) => number> = {
+    newest: byNewest,
+    useful: (a, b) => (b.likes ?? 0) - (a.likes ?? 0) || byNewest(a, b),
+    'rating-asc': (a, b) => a.rating - b.rating || byNewest(a, b),
+    'rating-desc': (a, b) => b.rating - a.rating || byNewest(a, b),
+  };
+  return sort ? [...reviews].sort(compare[sort]) : reviews;
+}
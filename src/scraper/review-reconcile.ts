@@ -0,0 +1,106 @@
+import type { Review } from '../types/index.js';
+
+// Pseudo IDs are generated when a source has no real review ID (e.g. DOM-scraped reviews)
+const PSEUDO_ID_PREFIX = 'dom_';
+
+function isPseudoId(id: string): boolean {
+  return id.startsWith(PSEUDO_ID_PREFIX);
+}
+
+// Identity of a review independent of its ID: author, day, rating and normalized text
+export function reviewFingerprint(review: Review): string {
+  const normalize = (value: string | undefined) =>
+    (value ?? '')
+      .toLowerCase()
+      .replace(/[\u200b\s]+/g, ' ')
+      .replace(/[^\p{L}\p{N} ]/gu, '')
+      .trim();
+
+  const day = review.dateCreated.match(/^\d{4}-\d{2}-\d{2}/)?.[0] ?? normalize(review.dateCreated);
+  return [normalize(review.author), day, review.rating, normalize(review.text).slice(0, 200)].join(
+    '|',
+  );
+}
+
+// More filled fields and a real ID make a review richer
+export function reviewRichness(review: Review): number {
+  const filled = Object.values(review).filter((v) => v !== undefined && v !== null && v !== '');
+  return filled.length + (isPseudoId(review.id) ? 0 : 10);
+}
+
+// Keep the richer review, filling its gaps from the other one
+export function mergeReviewVersions(a: Review, b: Review): Review {
+  const [rich, poor] = reviewRichness(b) > reviewRichness(a) ? [b, a] : [a, b];
+  const merged: Review = { ...rich };
+  for (const [key, value] of Object.entries(poor) as Array<[keyof Review, unknown]>) {
+    if (value !== undefined && value !== null && value !== '' && isEmpty(merged[key])) {
+      Object.assign(merged, { [key]: value });
+    }
+  }
+  return merged;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// Reviews from several sources, matched by ID and kept in first-seen order. Fingerprints
+// only match when one side has a pseudo ID: distinct real IDs are distinct reviews.
+export class ReviewCollection {
+  private reviews: Review[] = [];
+  private indexById = new Map<string, number>();
+  private indexByFingerprint = new Map<string, number>();
+  private merged = 0;
+
+  get size(): number {
+    return this.reviews.length;
+  }
+
+  // Duplicates found across sources and folded into one review
+  get mergedCount(): number {
+    return this.merged;
+  }
+
+  // Add reviews up to maxReviews unique ones, returning how many new reviews were added
+  add(reviews: Review[], maxReviews = Number.POSITIVE_INFINITY): number {
+    let addedCount = 0;
+    for (const review of reviews) {
+      const fingerprint = reviewFingerprint(review);
+      const index = this.findIndex(review, fingerprint);
+
+      if (index !== undefined) {
+        const existing = this.reviews[index] as Review;
+        if (existing.id !== review.id) this.merged++;
+        this.store(mergeReviewVersions(existing, review), index, fingerprint);
+        continue;
+      }
+
+      if (this.reviews.length >= maxReviews) continue;
+      this.reviews.push(review);
+      this.store(review, this.reviews.length - 1, fingerprint);
+      addedCount++;
+    }
+    return addedCount;
+  }
+
+  toArray(): Review[] {
+    return [...this.reviews];
+  }
+
+  private findIndex(review: Review, fingerprint: string): number | undefined {
+    const byId = this.indexById.get(review.id);
+    if (byId !== undefined) return byId;
+
+    const byFingerprint = this.indexByFingerprint.get(fingerprint);
+    const existing = byFingerprint !== undefined ? this.reviews[byFingerprint] : undefined;
+    return existing && (isPseudoId(review.id) || isPseudoId(existing.id))
+      ? byFingerprint
+      : undefined;
+  }
+
+  private store(review: Review, index: number, fingerprint: string): void {
+    this.reviews[index] = review;
+    this.indexById.set(review.id, index);
+    this.indexByFingerprint.set(fingerprint, index);
+  }
+}
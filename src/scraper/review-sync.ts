@@ -0,0 +1,84 @@
+import type { Review, ReviewSyncSummary } from '../types/index.js';
+import { lastChange } from './review-query.js';
+
+export interface ReviewSyncResult {
+  reviews: Review[]; // New reviews first, then known ones with edits applied
+  summary: ReviewSyncSummary;
+}
+
+// Anything the site changes when a review is edited or answered
+function reviewVersion(review: Review): string {
+  return [lastChange(review), review.rating, review.text, review.officialAnswer?.text ?? ''].join(
+    '|',
+  );
+}
+
+// Reviews saved by an earlier run, matched by ID; an unknown ID is a new review
+export class KnownReviews {
+  private indexById = new Map<string, number>();
+
+  constructor(private reviews: Review[]) {
+    reviews.forEach((review, index) => {
+      this.indexById.set(review.id, index);
+    });
+  }
+
+  get size(): number {
+    return this.reviews.length;
+  }
+
+  // Newest known review as "date (ID)", for logging where the sync starts from
+  get newest(): string | undefined {
+    const newest = this.reviews.reduce<Review | undefined>(
+      (latest, review) => (!latest || lastChange(review) > lastChange(latest) ? review : latest),
+      undefined,
+    );
+    return newest && `${lastChange(newest)} (${newest.id})`;
+  }
+
+  // A known review in its saved version: everything older on a newest-first page is known too
+  isUnchanged(review: Review): boolean {
+    const known = this.find(review);
+    return known !== undefined && reviewVersion(known) === reviewVersion(review);
+  }
+
+  // Add new reviews and apply edits to known ones, keeping unchanged reviews as saved
+  merge(fetched: Review[]): ReviewSyncResult {
+    const merged = [...this.reviews];
+    const added: Review[] = [];
+    const changedIds: string[] = [];
+    let edited = 0;
+
+    for (const review of fetched) {
+      const index = this.indexOf(review);
+      if (index === undefined) {
+        added.push(review);
+        changedIds.push(review.id);
+        continue;
+      }
+
+      const known = merged[index] as Review;
+      if (reviewVersion(known) === reviewVersion(review)) continue;
+      merged[index] = {
+        ...review,
+        ...(known.comments && !review.comments && { comments: known.comments }),
+      };
+      changedIds.push(review.id);
+      edited++;
+    }
+
+    return {
+      reviews: [...added, ...merged],
+      summary: { known: this.reviews.length, added: added.length, edited, changedIds },
+    };
+  }
+
+  private find(review: Review): Review | undefined {
+    const index = this.indexOf(review);
+    return index === undefined ? undefined : this.reviews[index];
+  }
+
+  private indexOf(review: Review): number | undefined {
+    return this.indexById.get(review.id);
+  }
+}
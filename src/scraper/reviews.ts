@@ -1,129 +1,232 @@
 import type { Page } from 'playwright';
-import type { Review } from '../types/index.js';
+import { REVIEW_API } from '../config.js';
+import { BlockedPageError } from '../errors.js';
+import type { Review, ReviewQuery, ScrapeLocation } from '../types/index.js';
 import type { Logger } from '../utils.js';
 import { DEFAULT_NAVIGATION_TIMEOUT } from './constants.js';
+import { gotoPage } from './helpers.js';
+import { getUiStrings } from './locale.js';
+import { type ApiResponseCollector, collectApiResponses, fetchApiJson } from './network.js';
+import type { RateLimiter } from './rate-limiter.js';
+import {
+  isReviewApiUrl,
+  mapReview,
+  parseReviewApiResponse,
+  type ReviewApiPage,
+} from './review-api.js';
+import { scrapeReviewComments } from './review-comments.js';
+import {
+  applyReviewQuery,
+  hasReviewQuery,
+  matchesReviewQuery,
+  sortReviews,
+} from './review-query.js';
+import { ReviewCollection } from './review-reconcile.js';
+import type { KnownReviews } from './review-sync.js';
+import { buildReviewsUrl } from './urls.js';
 
 export async function extractReviewsFromInitialState(page: Page): Promise<Review[]> {
-  return await page.evaluate(() => {
+  const entries = await page.evaluate(() => {
     // biome-ignore lint/suspicious/noExplicitAny: Browser window object is dynamic
     const state = (window as any).initialState;
     if (!state?.data?.review) return [];
 
-    const reviewData = state.data.review;
-    const allReviews = [];
-
-    for (const [id, reviewObj] of Object.entries(reviewData)) {
-      // biome-ignore lint/suspicious/noExplicitAny: 2GIS review data structure is dynamic
-      const review = (reviewObj as any)?.data;
-      if (review) {
-        allReviews.push({
-          id,
-          text: review.text || '',
-          rating: review.rating || 0,
-          dateCreated: review.date_created || '',
-          dateEdited: review.date_edited,
-          author: review.user?.name,
-          authorId: review.user?.id,
-          commentsCount: review.comments_count,
-          source: review.source,
-          likes: review.likes_count,
-          dislikes: review.dislikes_count,
-        });
-      }
-    }
-
-    return allReviews;
+    return (
+      Object.entries(state.data.review)
+        // biome-ignore lint/suspicious/noExplicitAny: 2GIS review data structure is dynamic
+        .map(([id, reviewObj]) => [id, (reviewObj as any)?.data] as const)
+        .filter(([, review]) => Boolean(review))
+    );
   });
+
+  return entries.map(([id, review]) => mapReview(review, id));
+}
+
+export interface CommentOptions {
+  maxCommentsPerOrg: number;
+}
+
+export interface ReviewScrapeOptions {
+  comments?: CommentOptions; // Expand comment threads
+  known?: KnownReviews; // Fetch newest first and stop at the first already saved review
+  query?: ReviewQuery; // Sort order and filters instead of the tab's default ordering
+}
+
+// First review API page and its URL: the one the tab requested itself, else the one
+// "Load more" triggers
+async function findFirstApiPage(
+  page: Page,
+  collector: ApiResponseCollector,
+  loadMoreText: string,
+  logger: Logger,
+): Promise<{ apiPage: ReviewApiPage; url: string } | null> {
+  for (const { url, body } of collector.responses) {
+    const apiPage = parseReviewApiResponse(body);
+    if (apiPage) return { apiPage, url };
+  }
+
+  const loadMoreButton = page.locator('button', { hasText: loadMoreText }).first();
+  if (!(await loadMoreButton.isVisible().catch(() => false))) {
+    logger.debug('No review API response and no "Load more" button');
+    return null;
+  }
+
+  const [response] = await Promise.all([
+    page.waitForResponse((r) => isReviewApiUrl(r.url()) && r.status() === 200, {
+      timeout: REVIEW_API.firstPageTimeoutMs,
+    }),
+    loadMoreButton.click(),
+  ]);
+  const apiPage = parseReviewApiResponse(await response.json());
+  return apiPage && { apiPage, url: response.url() };
 }
 
-export async function extractReviewsFromDOM(page: Page): Promise<Review[]> {
-  // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: DOM review extraction requires complex navigation and parsing logic
-  return await page.evaluate(() => {
-    // Find all review containers
-    // Strategy: Find divs that contain both the review text link and author element
-    const reviewLinks = document.querySelectorAll('a._1msln3t');
-    // biome-ignore lint/suspicious/noExplicitAny: DOM review items have dynamic structure
-    const reviewItems: any[] = [];
-    const seenTexts = new Set<string>();
-
-    for (let i = 0; i < reviewLinks.length; i++) {
-      const link = reviewLinks[i];
-      if (!link) continue;
-
-      const text = link.textContent?.trim() || '';
-      if (!text || seenTexts.has(text)) continue;
-
-      // Find the review container (go up from the link)
-      let reviewContainer = link.parentElement;
-      for (let j = 0; j < 10 && reviewContainer; j++) {
-        // Look for container with author element
-        if (reviewContainer.querySelector('._1pi8bc0')) {
-          break;
-        }
-        reviewContainer = reviewContainer.parentElement;
-      }
-
-      if (!reviewContainer) continue;
-
-      // Skip official responses (company answers to reviews)
-      const isOfficialResponse = reviewContainer.querySelector('._1evjsdb');
-      if (isOfficialResponse) continue;
-
-      // Extract author name
-      const authorEl = reviewContainer.querySelector('._1pi8bc0');
-      const authorText = authorEl?.textContent?.trim() || '';
-      const authorMatch = authorText.match(/^(.+?)​(\\d+)\\s+отзыв/);
-      const author = authorMatch ? authorMatch[1] : authorText.split('​')[0];
-
-      // Extract date
-      const dateEl = reviewContainer.querySelector('._a5f6uz');
-      const dateCreated = dateEl?.textContent?.trim() || '';
-
-      // Extract rating (count filled star SVGs)
-      const stars = reviewContainer.querySelectorAll('svg[fill="currentColor"]');
-      const rating = stars.length;
-
-      // Generate a pseudo ID
-      const id = `dom_${author}_${dateCreated}_${text.slice(0, 20)}`;
-
-      reviewItems.push({
-        id,
-        text,
-        rating,
-        dateCreated,
-        author,
-        authorId: undefined,
-        commentsCount: undefined,
-        source: null,
-        likes: undefined,
-        dislikes: undefined,
-      });
-
-      seenTexts.add(text);
+// Follow the review API's next_link cursor until maxReviews, the last page, or a page
+// where stopAt matches
+async function paginateReviewApi(
+  page: Page,
+  firstPage: ReviewApiPage,
+  reviews: ReviewCollection,
+  maxReviews: number,
+  logger: Logger,
+  limiter?: RateLimiter,
+  stopAt?: (pageReviews: Review[]) => boolean,
+): Promise<void> {
+  let current: ReviewApiPage | null = firstPage;
+  let pageNumber = 1;
+
+  while (current) {
+    const addedCount = reviews.add(current.reviews, maxReviews);
+    logger.debug(
+      `Review API page ${pageNumber}: ${addedCount} new reviews (total: ${reviews.size}${current.total !== undefined ? ` of ${current.total}` : ''})`,
+    );
+
+    if (stopAt?.(current.reviews)) {
+      logger.debug('Reached already saved reviews, stopping');
+      break;
+    }
+    if (reviews.size >= maxReviews || !current.nextLink) break;
+    if (addedCount === 0 && pageNumber > 1) {
+      logger.debug('No new reviews on API page, stopping');
+      break;
     }
 
-    return reviewItems;
-  });
+    current = parseReviewApiResponse(await fetchApiJson(page, current.nextLink, limiter));
+    pageNumber++;
+  }
+}
+
+// Re-request the tab's API call with the query's ordering and filters, then follow its cursor;
+// without an API call only the initialState reviews can be filtered and sorted locally
+async function collectQueriedReviews(
+  page: Page,
+  firstPage: { url: string } | null,
+  initialReviews: Review[],
+  reviews: ReviewCollection,
+  query: ReviewQuery,
+  maxReviews: number,
+  logger: Logger,
+  limiter?: RateLimiter,
+  stopAt?: (pageReviews: Review[]) => boolean,
+): Promise<void> {
+  const queriedPage =
+    firstPage &&
+    parseReviewApiResponse(
+      await fetchApiJson(page, applyReviewQuery(firstPage.url, query), limiter),
+    );
+  if (!queriedPage) {
+    logger.debug('No review API page for the query, using initialState reviews only');
+    const matching = initialReviews.filter((review) => matchesReviewQuery(review, query));
+    reviews.add(sortReviews(matching, query.sort), maxReviews);
+    return;
+  }
+
+  await paginateReviewApi(page, queriedPage, reviews, maxReviews, logger, limiter, stopAt);
+}
+
+// initialState reviews plus API pages: in the tab's default order, or re-queried when a sort,
+// filter or incremental sync is requested
+async function collectReviews(
+  page: Page,
+  firstPage: { apiPage: ReviewApiPage; url: string } | null,
+  initialReviews: Review[],
+  reviews: ReviewCollection,
+  maxReviews: number,
+  logger: Logger,
+  limiter?: RateLimiter,
+  query?: ReviewQuery,
+  known?: KnownReviews,
+): Promise<void> {
+  if (known) {
+    logger.debug(`Syncing reviews newer than ${known.newest ?? 'none'} (${known.size} saved)`);
+  }
+  if (hasReviewQuery(query)) {
+    await collectQueriedReviews(
+      page,
+      firstPage,
+      initialReviews,
+      reviews,
+      query,
+      maxReviews,
+      logger,
+      limiter,
+      known && ((pageReviews) => pageReviews.some((review) => known.isUnchanged(review))),
+    );
+    return;
+  }
+
+  reviews.add(initialReviews, maxReviews);
+  if (firstPage && reviews.size < maxReviews) {
+    await paginateReviewApi(page, firstPage.apiPage, reviews, maxReviews, logger, limiter);
+  }
+}
+
+async function addComments(
+  page: Page,
+  reviews: ReviewCollection,
+  reviewApiUrl: string | undefined,
+  commentOptions: CommentOptions,
+  logger: Logger,
+  limiter?: RateLimiter,
+): Promise<void> {
+  if (!reviewApiUrl) {
+    logger.debug('No review API request seen on the tab, skipping comments');
+    return;
+  }
+  const fetched = await scrapeReviewComments(
+    page,
+    reviews.toArray(),
+    reviewApiUrl,
+    commentOptions.maxCommentsPerOrg,
+    logger,
+    limiter,
+  );
+  logger.debug(`Fetched ${fetched} review comments`);
 }
 
-// biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Review scraping combines multiple strategies with error handling and pagination
 export async function scrapeReviews(
   page: Page,
   firmId: string,
   maxReviews: number,
   logger: Logger,
+  location?: ScrapeLocation,
+  limiter?: RateLimiter,
+  options: ReviewScrapeOptions = {},
 ): Promise<Review[]> {
-  const reviews: Review[] = [];
-  const reviewIds = new Set<string>();
+  const { comments: commentOptions, known } = options;
+  // Incremental sync needs newest first; filters still apply
+  const query: ReviewQuery | undefined = known
+    ? { ...options.query, sort: 'newest' }
+    : options.query;
+  const reviews = new ReviewCollection();
+  const strings = getUiStrings(location?.language);
+  const collector = collectApiResponses(page, isReviewApiUrl);
 
   try {
-    const reviewsUrl = `https://2gis.ru/moscow/firm/${firmId}/tab/reviews`;
+    const reviewsUrl = buildReviewsUrl(firmId, location?.city, location?.domain);
     logger.debug(`Navigating to reviews: ${reviewsUrl}`);
 
-    await page.goto(reviewsUrl, {
-      waitUntil: 'domcontentloaded',
-      timeout: DEFAULT_NAVIGATION_TIMEOUT,
-    });
+    await gotoPage(page, reviewsUrl, DEFAULT_NAVIGATION_TIMEOUT, limiter);
 
     // Wait for initialState to be updated with reviews
     // biome-ignore lint/suspicious/noExplicitAny: Browser window object is dynamic
@@ -136,70 +239,46 @@ export async function scrapeReviews(
 
     // Step 1: Extract initial reviews from initialState (fast, first 50)
     const initialReviews = await extractReviewsFromInitialState(page);
-
-    // Add initial reviews
-    for (const review of initialReviews) {
-      if (reviews.length >= maxReviews) break;
-      if (!reviewIds.has(review.id)) {
-        reviews.push(review);
-        reviewIds.add(review.id);
-      }
-    }
-
-    logger.debug(`Extracted ${reviews.length} reviews from initialState`);
-
-    // Step 2: If we need more, scrape from DOM with pagination
-    if (reviews.length < maxReviews) {
-      let clickCount = 0;
-      const maxClicks = 20; // Safety limit
-
-      while (reviews.length < maxReviews && clickCount < maxClicks) {
-        // Check if "Load more" button exists
-        const loadMoreButton = await page.locator('button:has-text("Загрузить ещё")').first();
-        const isVisible = await loadMoreButton.isVisible().catch(() => false);
-
-        if (!isVisible) {
-          logger.debug('No more "Load more" button, stopping pagination');
-          break;
-        }
-
-        // Click to load more reviews
-        await loadMoreButton.click();
-        clickCount++;
-        await page.waitForTimeout(1000);
-
-        // Extract reviews from DOM
-        const domReviews = await extractReviewsFromDOM(page);
-
-        // Add new reviews
-        let addedCount = 0;
-        for (const review of domReviews) {
-          if (reviews.length >= maxReviews) break;
-          if (!reviewIds.has(review.id)) {
-            reviews.push(review);
-            reviewIds.add(review.id);
-            addedCount++;
-          }
-        }
-
-        logger.debug(
-          `Click ${clickCount}: Added ${addedCount} new reviews (total: ${reviews.length})`,
-        );
-
-        if (addedCount === 0) {
-          logger.debug('No new reviews after pagination, stopping');
-          break;
-        }
-      }
+    logger.debug(`Extracted ${initialReviews.length} reviews from initialState`);
+
+    // Step 2: If we need more (or comments need the API URL), follow the review API cursor
+    const needsApi =
+      initialReviews.length < maxReviews || commentOptions !== undefined || hasReviewQuery(query);
+    const firstPage = needsApi
+      ? await findFirstApiPage(page, collector, strings.loadMore, logger)
+      : null;
+    await collectReviews(
+      page,
+      firstPage,
+      initialReviews,
+      reviews,
+      maxReviews,
+      logger,
+      limiter,
+      query,
+      known,
+    );
+
+    logger.debug(`Extracted ${reviews.size} total reviews`);
+
+    // Step 3: Optionally expand comment threads
+    if (commentOptions) {
+      await addComments(page, reviews, firstPage?.url, commentOptions, logger, limiter);
     }
-
-    const finalReviews = reviews.slice(0, maxReviews);
-    logger.debug(`Extracted ${finalReviews.length} total reviews`);
-    return finalReviews;
   } catch (e) {
+    // Let blocked pages reach the retry wrapper so the run can pause and resume
+    if (e instanceof BlockedPageError) throw e;
     const errorMsg = e instanceof Error ? e.message : 'Unknown error';
     logger.warn(`Failed to extract reviews: ${errorMsg}`);
+  } finally {
+    collector.stop();
   }
 
-  return reviews.slice(0, maxReviews);
+  if (reviews.mergedCount > 0) {
+    logger.info(`Merged ${reviews.mergedCount} duplicate reviews found under different IDs`);
+  }
+  return reviews
+    .toArray()
+    .filter((review) => matchesReviewQuery(review, query))
+    .slice(0, maxReviews);
 }
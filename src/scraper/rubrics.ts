@@ -0,0 +1,86 @@
+import type { Rubric, RubricNode } from '../types/index.js';
+
+// Rubric from a catalog item, or a bare name from files saved before rubrics were structured
+// biome-ignore lint/suspicious/noExplicitAny: 2GIS rubric data structure is dynamic
+export function mapRubric(raw: any): Rubric | undefined {
+  if (typeof raw === 'string') return raw ? { name: raw } : undefined;
+  if (typeof raw?.name !== 'string') return undefined;
+
+  const id = raw.id ?? raw.short_id;
+  const parentId = raw.parent_id ?? raw.parentId;
+  const primary = raw.kind ? raw.kind === 'primary' : raw.primary;
+  return {
+    ...(id !== undefined && { id: String(id) }),
+    name: raw.name,
+    ...(raw.alias && { alias: raw.alias }),
+    ...(typeof primary === 'boolean' && { primary }),
+    ...(parentId !== undefined && parentId !== null && { parentId: String(parentId) }),
+  };
+}
+
+// Case-insensitive name (or alias) lookup among rubrics with an ID
+export function findRubricByName(rubrics: Rubric[], name: string): Rubric | undefined {
+  const wanted = name.trim().toLowerCase();
+  return rubrics.find(
+    (rubric) =>
+      rubric.id && (rubric.name.toLowerCase() === wanted || rubric.alias?.toLowerCase() === wanted),
+  );
+}
+
+// Drop one parent link per parentId cycle, so the rubric it reaches first becomes a root
+function breakParentCycles(parents: Map<string, string>): void {
+  const done = new Set<string>();
+  for (const start of parents.keys()) {
+    const path: string[] = [];
+    let id: string | undefined = start;
+    while (id !== undefined && !done.has(id) && !path.includes(id)) {
+      path.push(id);
+      id = parents.get(id);
+    }
+    if (id !== undefined && path.includes(id)) parents.delete(id);
+    for (const visited of path) done.add(visited);
+  }
+}
+
+// Rubric tree from rubrics as seen on firms (one entry per firm); parents known only by
+// parentId become unnamed group nodes. Rubrics without an ID are left out.
+export function buildRubricTree(rubrics: Rubric[]): RubricNode[] {
+  const nodes = new Map<string, RubricNode>();
+  const parents = new Map<string, string>();
+  const nodeFor = (id: string): RubricNode => {
+    let node = nodes.get(id);
+    if (!node) {
+      node = { id, firmCount: 0, children: [] };
+      nodes.set(id, node);
+    }
+    return node;
+  };
+
+  for (const rubric of rubrics) {
+    if (!rubric.id) continue;
+    const node = nodeFor(rubric.id);
+    node.firmCount++;
+    node.name ??= rubric.name;
+    if (rubric.alias) node.alias ??= rubric.alias;
+    if (rubric.parentId && rubric.parentId !== rubric.id) {
+      parents.set(rubric.id, rubric.parentId);
+      nodeFor(rubric.parentId);
+    }
+  }
+
+  breakParentCycles(parents);
+  const roots: RubricNode[] = [];
+  for (const node of nodes.values()) {
+    const parentId = parents.get(node.id);
+    if (parentId) nodeFor(parentId).children.push(node);
+    else roots.push(node);
+  }
+
+  // Busiest first
+  const sortNodes = (list: RubricNode[]): void => {
+    list.sort((a, b) => b.firmCount - a.firmCount || (a.name ?? '').localeCompare(b.name ?? ''));
+    for (const node of list) sortNodes(node.children);
+  };
+  sortNodes(roots);
+  return roots;
+}
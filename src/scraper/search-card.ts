@@ -0,0 +1,131 @@
+import type { Language, ScrapedOrganization, SearchResultItem } from '../types/index.js';
+import type { Logger } from '../utils.js';
+import { extractOrganization } from './organization.js';
+
+// Words of search result cards as the site displays them, per interface language
+interface CardWords {
+  advertiser: RegExp; // Ad badge line
+  reviews: RegExp; // Follows the count in "1 234 оценки"
+  meters: RegExp;
+  kilometers: RegExp;
+  skip: RegExp; // Schedule, branch and similar lines that are not the address
+}
+
+const CARD_WORDS: Record<Language, CardWords> = {
+  ru: {
+    advertiser: /^(реклама|рекламодатель)$/i,
+    reviews: /оцен|отзыв/i,
+    meters: /^м$/i,
+    kilometers: /^км$/i,
+    skip: /открыто|закрыто|откроется|круглосуточно|филиал|перерыв/i,
+  },
+  en: {
+    advertiser: /^(ad|advertising|advertiser|sponsored)$/i,
+    reviews: /review|rating/i,
+    meters: /^m$/i,
+    kilometers: /^km$/i,
+    skip: /open|closed|24\/7|branch|break/i,
+  },
+  kk: {
+    advertiser: /^(жарнама|реклама)$/i,
+    reviews: /баға|пікір|оцен|отзыв/i,
+    meters: /^м$/i,
+    kilometers: /^км$/i,
+    skip: /ашық|жабық|тәулік|филиал|открыто|закрыто/i,
+  },
+  ar: {
+    advertiser: /^(إعلان|اعلان|ad)$/i,
+    reviews: /تقييم|مراجع|review|rating/i,
+    meters: /^(م|m)$/i,
+    kilometers: /^(كم|km)$/i,
+    skip: /مفتوح|مغلق|فرع|open|closed|branch/i,
+  },
+};
+
+// Fields read from the visible text of a search result card
+export interface SearchCardFields {
+  rating?: number;
+  reviewCount?: number;
+  address?: string;
+  primaryRubric?: string;
+  distanceMeters?: number;
+  advertiser?: boolean;
+}
+
+function parseNumber(text: string): number {
+  return Number(text.replace(/[\s ]/g, '').replace(',', '.'));
+}
+
+// Classify one card line; returns false when the line is none of the known fields
+function readCardLine(line: string, words: CardWords, fields: SearchCardFields): boolean {
+  if (words.advertiser.test(line)) {
+    fields.advertiser = true;
+    return true;
+  }
+  const rating = line.match(/^([1-5](?:[.,]\d{1,2})?)$/);
+  if (rating?.[1] && fields.rating === undefined) {
+    fields.rating = parseNumber(rating[1]);
+    return true;
+  }
+  const reviews = line.match(/^(\d[\d\s ]*)\s+(\S.*)$/);
+  if (reviews?.[1] && reviews[2] && words.reviews.test(reviews[2])) {
+    fields.reviewCount = parseNumber(reviews[1]);
+    return true;
+  }
+  const distance = line.match(/^(\d+(?:[.,]\d+)?)\s*(\S+)$/);
+  if (distance?.[1] && distance[2]) {
+    const value = parseNumber(distance[1]);
+    if (words.meters.test(distance[2])) fields.distanceMeters = Math.round(value);
+    else if (words.kilometers.test(distance[2])) fields.distanceMeters = Math.round(value * 1000);
+    if (fields.distanceMeters !== undefined) return true;
+  }
+  return words.skip.test(line);
+}
+
+// Parse card text lines: rating, review count, ad badge and distance have recognizable shapes;
+// of the rest, the first line without digits is the primary rubric and the first with a
+// digit is the address
+export function parseSearchCard(
+  lines: string[],
+  name: string,
+  language: Language = 'ru',
+): SearchCardFields {
+  const words = CARD_WORDS[language];
+  const fields: SearchCardFields = {};
+
+  for (const line of lines.map((l) => l.trim()).filter((l) => l && l !== name)) {
+    if (readCardLine(line, words, fields)) continue;
+    if (/\d/.test(line)) fields.address ??= line;
+    else if (!fields.address) fields.primaryRubric ??= line;
+  }
+
+  return fields;
+}
+
+// List mode record: the catalog item (API or initialState) when one was found, else the card
+// text; distance and the ad badge only show on the card
+export function buildListOrganization(
+  item: SearchResultItem,
+  logger: Logger,
+  language: Language = 'ru',
+): ScrapedOrganization {
+  const card = parseSearchCard(item.lines ?? [], item.name, language);
+  const advertiser = card.advertiser || Boolean(item.data?.ads);
+  const listing = {
+    ...(card.distanceMeters !== undefined && { distanceMeters: card.distanceMeters }),
+    ...(advertiser && { advertiser }),
+  };
+
+  if (item.data) {
+    return { ...extractOrganization(item.data, logger, language), orgId: item.firmId, ...listing };
+  }
+  return {
+    name: item.name,
+    address: card.address ?? '',
+    ...(card.rating !== undefined && { rating: card.rating }),
+    ...(card.reviewCount !== undefined && { reviewCount: card.reviewCount }),
+    rubrics: card.primaryRubric ? [{ name: card.primaryRubric, primary: true }] : [],
+    orgId: item.firmId,
+    ...listing,
+  };
+}
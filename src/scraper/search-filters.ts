@@ -0,0 +1,72 @@
+import { SEARCH_FILTERS } from '../config.js';
+import { InvalidSearchFilterError } from '../errors.js';
+import type { Coordinates, SearchFilters, SearchSort } from '../types/index.js';
+
+export function isSearchSort(value: string): value is SearchSort {
+  return value in SEARCH_FILTERS.sortValues;
+}
+
+export function parseSearchSort(value: string): SearchSort {
+  if (!isSearchSort(value)) {
+    throw new InvalidSearchFilterError(
+      `Invalid search sort "${value}". Must be one of: ${Object.keys(SEARCH_FILTERS.sortValues).join(', ')}`,
+      value,
+    );
+  }
+  return value;
+}
+
+export function parseMinRating(value: string): number {
+  const rating = Number(value);
+  if (!value.trim() || Number.isNaN(rating) || rating < 1 || rating > 5) {
+    throw new InvalidSearchFilterError(
+      `Invalid minimum rating "${value}", expected a number from 1 to 5`,
+      value,
+    );
+  }
+  return rating;
+}
+
+// Parse "lon,lat" into a point
+export function parsePoint(value: string): Coordinates {
+  const parts = value.split(',').map((p) => Number(p.trim()));
+  const [lon, lat] = parts;
+  if (
+    parts.length !== 2 ||
+    lon === undefined ||
+    lat === undefined ||
+    parts.some((p) => Number.isNaN(p)) ||
+    Math.abs(lon) > 180 ||
+    Math.abs(lat) > 90
+  ) {
+    throw new InvalidSearchFilterError(`Invalid point "${value}", expected lon,lat`, value);
+  }
+  return { lon, lat };
+}
+
+export function hasSearchFilters(filters: SearchFilters | undefined): filters is SearchFilters {
+  return Boolean(
+    filters?.openNow ||
+      filters?.open24h ||
+      filters?.minRating !== undefined ||
+      filters?.withPhotos ||
+      filters?.attributes?.length ||
+      (filters?.sort && filters.sort !== 'relevance') ||
+      filters?.near,
+  );
+}
+
+// Tokens of the URL's /filters/ segment, in a stable order so equal filters give equal URLs
+export function searchFilterTokens(filters: SearchFilters): string[] {
+  const sort = filters.sort && SEARCH_FILTERS.sortValues[filters.sort];
+  return [
+    ...(sort ? [`${SEARCH_FILTERS.sortParam}=${sort}`] : []),
+    ...(filters.openNow ? [SEARCH_FILTERS.openNow] : []),
+    ...(filters.open24h ? [SEARCH_FILTERS.open24h] : []),
+    ...(filters.minRating !== undefined
+      ? [`${SEARCH_FILTERS.minRatingParam}=${filters.minRating}`]
+      : []),
+    ...(filters.withPhotos ? [SEARCH_FILTERS.withPhotos] : []),
+    ...[...new Set(filters.attributes ?? [])].sort(),
+  ];
+}
@@ -0,0 +1,274 @@
+import type { Page } from 'playwright';
+import { DEFAULT_LIMITS } from '../config.js';
+import type {
+  ScrapeLocation,
+  ScraperOptions,
+  SearchMetadata,
+  SearchResultItem,
+} from '../types/index.js';
+import type { Logger } from '../utils.js';
+import type { BlockHandler } from './anti-bot.js';
+import { DEFAULT_NAVIGATION_TIMEOUT, DEFAULT_WAIT_TIMEOUT } from './constants.js';
+import { gotoPage, withRetry } from './helpers.js';
+import { getApiCapture } from './network.js';
+import type { RateLimiter } from './rate-limiter.js';
+import { buildSearchUrl, firmLinkSelector, type SearchUrlParams } from './urls.js';
+
+export interface SearchCollection {
+  items: SearchResultItem[];
+  search: SearchMetadata;
+}
+
+// Extract firm cards from the currently rendered search results page
+export async function extractSearchResultItems(
+  page: Page,
+  selector: string,
+): Promise<SearchResultItem[]> {
+  return await page.evaluate((selector) => {
+    const results: SearchResultItem[] = [];
+    const links = document.querySelectorAll(selector);
+
+    for (const link of Array.from(links)) {
+      const container = link.closest('[data-id]') || link.closest('article') || link.parentElement;
+      const firmId = link.getAttribute('href')?.match(/firm\/(\d+)/)?.[1];
+
+      if (firmId) {
+        const text = container instanceof HTMLElement ? container.innerText : '';
+        results.push({
+          firmId,
+          url: link.getAttribute('href') || '',
+          name: link.textContent?.trim() || '',
+          container: container?.outerHTML || '',
+          lines: text
+            .split('\n')
+            .map((line) => line.trim())
+            .filter(Boolean),
+        });
+      }
+    }
+
+    return results;
+  }, selector);
+}
+
+// Attach catalog API items captured while the page loaded to the matching DOM cards
+export function attachApiData(
+  pageItems: SearchResultItem[],
+  // biome-ignore lint/suspicious/noExplicitAny: 2GIS API item structure is dynamic
+  findItem: (firmId: string) => { item: any } | undefined,
+): SearchResultItem[] {
+  return pageItems.map((item) => {
+    const captured = findItem(item.firmId);
+    return captured ? { ...item, data: captured.item } : item;
+  });
+}
+
+// Firm items of the rendered search results in initialState, keyed by firm ID
+// biome-ignore lint/suspicious/noExplicitAny: 2GIS profile structure is dynamic
+export async function extractInitialStateItems(page: Page): Promise<Map<string, any>> {
+  const entries = await page
+    .evaluate(() => {
+      // biome-ignore lint/suspicious/noExplicitAny: Browser window object is dynamic
+      const profiles = (window as any).initialState?.data?.entity?.profile ?? {};
+      // biome-ignore lint/suspicious/noExplicitAny: 2GIS profile structure is dynamic
+      return Object.values(profiles).map((profile: any) => profile?.data);
+    })
+    .catch(() => []);
+
+  // biome-ignore lint/suspicious/noExplicitAny: 2GIS item structure is dynamic
+  const items = new Map<string, any>();
+  for (const item of entries) {
+    // Item IDs may carry a hash suffix: "70000001044609041_abc"
+    const firmId = String(item?.id ?? '').split('_')[0];
+    if (firmId) items.set(firmId, item);
+  }
+  return items;
+}
+
+// Total result count reported by 2GIS for the current search: initialState, then captured API
+export async function extractReportedTotal(page: Page): Promise<number | undefined> {
+  // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Defensive lookup through dynamic initialState slices
+  const total = await page.evaluate(() => {
+    // biome-ignore lint/suspicious/noExplicitAny: Browser window object is dynamic
+    const data = (window as any).initialState?.data;
+    if (!data) return null;
+
+    for (const [key, value] of Object.entries(data)) {
+      if (!/search/i.test(key) || !value || typeof value !== 'object') continue;
+
+      // Search slices are keyed by search context: { [ctx]: { data: { total } } }
+      for (const entry of Object.values(value)) {
+        // biome-ignore lint/suspicious/noExplicitAny: 2GIS search state structure is dynamic
+        const candidate = (entry as any)?.data ?? entry;
+        const found = candidate?.total ?? candidate?.totalCount ?? candidate?.result?.total;
+        if (typeof found === 'number') return found;
+      }
+    }
+
+    return null;
+  });
+
+  return total ?? getApiCapture(page).reportedTotal();
+}
+
+// Navigate to a search results page and wait for firm links to render
+async function loadSearchPage(
+  page: Page,
+  url: string,
+  selector: string,
+  maxRetries: number,
+  logger: Logger,
+  pageNumber: number,
+  limiter?: RateLimiter,
+  blockHandler?: BlockHandler,
+): Promise<boolean> {
+  const navigated = await withRetry(
+    async () => {
+      await gotoPage(page, url, DEFAULT_WAIT_TIMEOUT, limiter);
+      return true;
+    },
+    maxRetries,
+    logger,
+    `Search page ${pageNumber} navigation`,
+    blockHandler && ((error) => blockHandler.handle(page, error)),
+  );
+  if (!navigated) return false;
+
+  // Past the last page there are no firm links, so only retry on the first page
+  if (pageNumber > 1) {
+    const found = await page
+      .waitForSelector(selector, { timeout: DEFAULT_NAVIGATION_TIMEOUT })
+      .then(
+        () => true,
+        () => false,
+      );
+    if (!found) logger.debug(`No results on page ${pageNumber}, reached end of search results`);
+    return found;
+  }
+
+  const resultsFound = await withRetry(
+    async () => {
+      await page.waitForSelector(selector, { timeout: DEFAULT_NAVIGATION_TIMEOUT });
+      return true;
+    },
+    maxRetries,
+    logger,
+    `Waiting for search results on page ${pageNumber}`,
+  );
+
+  return Boolean(resultsFound);
+}
+
+// Pages holding the reported number of results, so paging stops without loading an empty page
+export function searchPageCount(
+  reportedTotal: number | undefined,
+  pageSize: number = DEFAULT_LIMITS.searchPageSize,
+): number {
+  if (reportedTotal === undefined) return DEFAULT_LIMITS.maxSearchPages;
+  return Math.min(Math.max(Math.ceil(reportedTotal / pageSize), 1), DEFAULT_LIMITS.maxSearchPages);
+}
+
+// Append unseen firms to the collection, returning how many were added
+export function mergeSearchItems(
+  items: SearchResultItem[],
+  seenIds: Set<string>,
+  pageItems: SearchResultItem[],
+  maxRecords: number,
+): number {
+  let addedCount = 0;
+  for (const item of pageItems) {
+    if (items.length >= maxRecords) break;
+    if (seenIds.has(item.firmId)) continue;
+    seenIds.add(item.firmId);
+    items.push(item);
+    addedCount++;
+  }
+  return addedCount;
+}
+
+// Page through search results until maxRecords or the end of results, de-duplicating firm IDs
+export async function collectSearchResults(
+  page: Page,
+  query: string,
+  location: ScrapeLocation,
+  options: ScraperOptions,
+  logger: Logger,
+  urlParams: Omit<SearchUrlParams, 'page'> = {},
+  limiter?: RateLimiter,
+  blockHandler?: BlockHandler,
+): Promise<SearchCollection> {
+  return collectResultPages(
+    page,
+    (pageNumber) =>
+      buildSearchUrl(query, location.city, location.domain, {
+        ...(options.searchFilters && { filters: options.searchFilters }),
+        ...urlParams,
+        page: pageNumber,
+      }),
+    location,
+    options,
+    logger,
+    limiter,
+    blockHandler,
+  );
+}
+
+// Page through any paged firm listing (search results, chain branches) built by buildUrl
+export async function collectResultPages(
+  page: Page,
+  buildUrl: (pageNumber: number) => string,
+  location: ScrapeLocation,
+  options: Pick<ScraperOptions, 'maxRecords' | 'maxRetries'>,
+  logger: Logger,
+  limiter?: RateLimiter,
+  blockHandler?: BlockHandler,
+): Promise<SearchCollection> {
+  const selector = firmLinkSelector(location.city);
+  const items: SearchResultItem[] = [];
+  const seenIds = new Set<string>();
+  const search: SearchMetadata = { pagesVisited: 0 };
+
+  for (let pageNumber = 1; pageNumber <= DEFAULT_LIMITS.maxSearchPages; pageNumber++) {
+    const url = buildUrl(pageNumber);
+    const loaded = await loadSearchPage(
+      page,
+      url,
+      selector,
+      options.maxRetries,
+      logger,
+      pageNumber,
+      limiter,
+      blockHandler,
+    );
+    if (!loaded) break;
+
+    search.pagesVisited = pageNumber;
+    if (pageNumber === 1) {
+      const reportedTotal = await extractReportedTotal(page);
+      if (reportedTotal !== undefined) search.reportedTotal = reportedTotal;
+    }
+
+    // Catalog API items first; initialState covers cards rendered without a captured request
+    const capture = getApiCapture(page);
+    const stateItems = await extractInitialStateItems(page);
+    const pageItems = attachApiData(await extractSearchResultItems(page, selector), (firmId) => {
+      const stateItem = stateItems.get(firmId);
+      return capture.findItem(firmId) ?? (stateItem && { item: stateItem });
+    });
+    const addedCount = mergeSearchItems(items, seenIds, pageItems, options.maxRecords);
+    const expectedTotal = search.reportedTotal ?? Number.POSITIVE_INFINITY;
+    logger.debug(`Search page ${pageNumber}: ${addedCount} new results (total: ${items.length})`);
+
+    if (addedCount === 0) {
+      logger.debug('No new results on page, reached end of search results');
+      break;
+    }
+    if (items.length >= Math.min(options.maxRecords, expectedTotal)) break;
+    if (pageNumber >= searchPageCount(search.reportedTotal)) {
+      logger.debug(`Page ${pageNumber} is the last page of the reported results`);
+      break;
+    }
+  }
+
+  return { items, search };
+}
@@ -1,38 +1,109 @@
 import type { Page } from 'playwright';
-import type { ScrapedOrganization, ScraperOptions } from '../types/index.js';
+import { DEFAULT_LIMITS, NETWORK_CAPTURE, PHOTO_API } from '../config.js';
+import type {
+  Review,
+  ScrapedOrganization,
+  ScrapeLocation,
+  ScraperOptions,
+} from '../types/index.js';
 import type { Logger } from '../utils.js';
 import { DEFAULT_NAVIGATION_TIMEOUT } from './constants.js';
-import { extractDataFromPage } from './helpers.js';
+import { extractDataFromPage, gotoPage } from './helpers.js';
+import { resolveLocation } from './locale.js';
+import { getApiCapture } from './network.js';
+import { extractPhotoAlbums, scrapeOrganizationPhotos } from './org-photos.js';
 import { extractOrganization } from './organization.js';
+import { downloadOrganizationPhotos, downloadReviewPhotos } from './photos.js';
+import type { RateLimiter } from './rate-limiter.js';
+import { normalizeReviewDate } from './review-dates.js';
+import { KnownReviews } from './review-sync.js';
 import { scrapeReviews } from './reviews.js';
 
+// API data is preferred, so its item is awaited first; server-rendered initialState is
+// present right after navigation and only serves as the fallback
+export async function waitForFirmData(page: Page, firmId: string | undefined): Promise<void> {
+  if (firmId && (await getApiCapture(page).waitForItem(firmId, NETWORK_CAPTURE.apiItemTimeoutMs))) {
+    return;
+  }
+
+  const timeout = NETWORK_CAPTURE.firmDataTimeoutMs;
+  await page
+    // biome-ignore lint/suspicious/noExplicitAny: Browser window object is dynamic
+    .waitForFunction(() => typeof (window as any).initialState !== 'undefined', { timeout })
+    .catch(() => {
+      throw new Error(
+        `Neither initialState nor a catalog API response appeared within ${timeout}ms`,
+      );
+    });
+}
+
+// Album summaries from the card plus the listed photos, downloaded when asked
+async function addOrganizationPhotos(
+  page: Page,
+  organization: ScrapedOrganization,
+  // biome-ignore lint/suspicious/noExplicitAny: 2GIS item data structure is dynamic
+  item: any,
+  options: ScraperOptions,
+  logger: Logger,
+  location: ScrapeLocation,
+  limiter?: RateLimiter,
+): Promise<void> {
+  if (!item.id) return;
+  const photosStart = Date.now();
+  const albums = extractPhotoAlbums(item);
+  if (albums.length > 0) organization.photoAlbums = albums;
+
+  organization.photos = await scrapeOrganizationPhotos(
+    page,
+    String(item.id),
+    options.maxPhotosPerOrg ?? PHOTO_API.maxPerOrg,
+    logger,
+    location,
+    limiter,
+  );
+  logger.debug(
+    `⏱️  Photos extraction: ${Date.now() - photosStart}ms (${organization.photos.length} photos)`,
+  );
+
+  if (options.downloadPhotos) {
+    const saved = await downloadOrganizationPhotos(
+      page.context().request,
+      organization.photos,
+      logger,
+      undefined,
+      options.maxPhotoBytes,
+    );
+    logger.debug(`Organization photos saved: ${saved}`);
+  }
+}
+
 export async function scrapeSingleOrganization(
   page: Page,
   url: string,
   logger: Logger,
   options: ScraperOptions,
+  limiter?: RateLimiter,
+  knownReviews?: Review[],
   // biome-ignore lint/suspicious/noExplicitAny: Raw 2GIS data structure is dynamic
 ): Promise<{ organization: ScrapedOrganization; rawData: any } | null> {
   const startTime = Date.now();
 
   // Navigate to firm page and wait for DOM to load
   const navStart = Date.now();
-  await page.goto(url, { waitUntil: 'domcontentloaded', timeout: DEFAULT_NAVIGATION_TIMEOUT });
+  await gotoPage(page, url, DEFAULT_NAVIGATION_TIMEOUT, limiter);
   const navTime = Date.now() - navStart;
   logger.debug(`⏱️  Navigation: ${navTime}ms`);
 
-  // Wait for initialState to be available
+  // Wait for initialState or a catalog API response with this firm, whichever comes first
+  const firmId = url.match(/firm\/(\d+)/)?.[1];
   const waitStart = Date.now();
-  // biome-ignore lint/suspicious/noExplicitAny: Browser window object is dynamic
-  await page.waitForFunction(() => typeof (window as any).initialState !== 'undefined', {
-    timeout: 5000,
-  });
+  await waitForFirmData(page, firmId);
   const waitTime = Date.now() - waitStart;
-  logger.debug(`⏱️  Wait for initialState: ${waitTime}ms`);
+  logger.debug(`⏱️  Wait for firm data: ${waitTime}ms`);
 
   // Extract data from page
   const extractStart = Date.now();
-  const extraction = await extractDataFromPage(page, logger);
+  const extraction = await extractDataFromPage(page, logger, firmId);
   const extractTime = Date.now() - extractStart;
   logger.debug(`⏱️  Data extraction: ${extractTime}ms`);
 
@@ -60,15 +131,64 @@ export async function scrapeSingleOrganization(
   };
 
   // Extract organization data
-  const organization = extractOrganization(item, logger);
+  const location = resolveLocation(options);
+  const organization: ScrapedOrganization = {
+    ...extractOrganization(item, logger, location.language),
+    ...(firmId && { firmId }),
+  };
 
   // Scrape reviews if in full-with-reviews mode
   if (options.scrapingMode === 'full-with-reviews' && item.id) {
     const reviewsStart = Date.now();
-    const reviews = await scrapeReviews(page, item.id, options.maxReviewsPerOrg, logger);
+    // Older files may hold DOM-scraped display dates
+    const known =
+      knownReviews &&
+      new KnownReviews(
+        knownReviews.map((review) => normalizeReviewDate(review, location.language)),
+      );
+    const reviews = await scrapeReviews(
+      page,
+      item.id,
+      options.maxReviewsPerOrg,
+      logger,
+      location,
+      limiter,
+      {
+        ...(options.includeComments && {
+          comments: {
+            maxCommentsPerOrg: options.maxCommentsPerOrg ?? DEFAULT_LIMITS.maxCommentsPerOrg,
+          },
+        }),
+        ...(known && { known }),
+        ...(options.reviewQuery && { query: options.reviewQuery }),
+      },
+    );
     const reviewsTime = Date.now() - reviewsStart;
     logger.debug(`⏱️  Reviews extraction: ${reviewsTime}ms (${reviews.length} reviews)`);
-    organization.reviews = reviews;
+
+    if (known) {
+      const sync = known.merge(reviews);
+      organization.reviews = sync.reviews;
+      organization.reviewSync = sync.summary;
+      logger.info(
+        `Review sync: ${sync.summary.added} new, ${sync.summary.edited} edited, ${sync.summary.known} saved before`,
+      );
+    } else {
+      organization.reviews = reviews;
+    }
+
+    if (options.downloadReviewPhotos) {
+      const saved = await downloadReviewPhotos(
+        page.context().request,
+        organization.reviews,
+        logger,
+      );
+      logger.debug(`Review photos saved: ${saved}`);
+    }
+  }
+
+  if (options.includePhotos) {
+    await addOrganizationPhotos(page, organization, item, options, logger, location, limiter);
   }
 
   const totalTime = Date.now() - startTime;
@@ -0,0 +1,231 @@
+import type { Page } from 'playwright';
+import { DEFAULT_LIMITS, TILING } from '../config.js';
+import { InvalidAreaError } from '../errors.js';
+import type {
+  BoundingBox,
+  Coordinates,
+  MapViewport,
+  ScrapeLocation,
+  ScraperOptions,
+  SearchResultItem,
+  TilingArea,
+  TilingMetadata,
+} from '../types/index.js';
+import type { Logger } from '../utils.js';
+import type { BlockHandler } from './anti-bot.js';
+import type { RateLimiter } from './rate-limiter.js';
+import { collectSearchResults, mergeSearchItems, type SearchCollection } from './search.js';
+
+interface QueuedTile {
+  bbox: BoundingBox;
+  depth: number;
+}
+
+// Parse "west,south,east,north" (GeoJSON bbox order)
+export function parseBoundingBox(text: string): BoundingBox {
+  const parts = text.split(',').map((p) => Number(p.trim()));
+  const [west, south, east, north] = parts;
+  if (
+    parts.length !== 4 ||
+    west === undefined ||
+    south === undefined ||
+    east === undefined ||
+    north === undefined ||
+    parts.some((p) => Number.isNaN(p)) ||
+    west >= east ||
+    south >= north
+  ) {
+    throw new InvalidAreaError(
+      `Invalid bounding box "${text}", expected west,south,east,north`,
+      text,
+    );
+  }
+  return { west, south, east, north };
+}
+
+// Parse "lon,lat;lon,lat;..." into a polygon ring
+export function parsePolygon(text: string): Coordinates[] {
+  const points = text
+    .split(';')
+    .filter((p) => p.trim())
+    .map((pair) => {
+      const [lon, lat] = pair.split(',').map((p) => Number(p.trim()));
+      return { lat: lat ?? Number.NaN, lon: lon ?? Number.NaN };
+    });
+
+  if (points.length < 3 || points.some((p) => Number.isNaN(p.lat) || Number.isNaN(p.lon))) {
+    throw new InvalidAreaError(
+      `Invalid polygon "${text}", expected at least 3 points as lon,lat;lon,lat;...`,
+      text,
+    );
+  }
+  return points;
+}
+
+export function polygonBoundingBox(polygon: Coordinates[]): BoundingBox {
+  const lons = polygon.map((p) => p.lon);
+  const lats = polygon.map((p) => p.lat);
+  return {
+    west: Math.min(...lons),
+    south: Math.min(...lats),
+    east: Math.max(...lons),
+    north: Math.max(...lats),
+  };
+}
+
+// Ray casting point-in-polygon test
+export function pointInPolygon(point: Coordinates, polygon: Coordinates[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (!a || !b) continue;
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lon < ((b.lon - a.lon) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lon;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+// Approximate overlap test: any tile corner/center inside the polygon or any vertex inside the tile
+export function tileIntersectsPolygon(tile: BoundingBox, polygon: Coordinates[]): boolean {
+  const corners: Coordinates[] = [
+    { lat: tile.south, lon: tile.west },
+    { lat: tile.south, lon: tile.east },
+    { lat: tile.north, lon: tile.west },
+    { lat: tile.north, lon: tile.east },
+    { lat: (tile.south + tile.north) / 2, lon: (tile.west + tile.east) / 2 },
+  ];
+  if (corners.some((c) => pointInPolygon(c, polygon))) return true;
+  return polygon.some(
+    (p) => p.lat >= tile.south && p.lat <= tile.north && p.lon >= tile.west && p.lon <= tile.east,
+  );
+}
+
+// Split a bounding box into a rows x cols grid
+export function splitBoundingBox(bbox: BoundingBox, rows: number, cols = rows): BoundingBox[] {
+  const latStep = (bbox.north - bbox.south) / rows;
+  const lonStep = (bbox.east - bbox.west) / cols;
+  const tiles: BoundingBox[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      tiles.push({
+        west: bbox.west + col * lonStep,
+        south: bbox.south + row * latStep,
+        east: bbox.west + (col + 1) * lonStep,
+        north: bbox.south + (row + 1) * latStep,
+      });
+    }
+  }
+
+  return tiles;
+}
+
+// Map viewport (center + zoom) that fully shows the tile in the browser window
+export function tileViewport(tile: BoundingBox): MapViewport {
+  const center = { lat: (tile.south + tile.north) / 2, lon: (tile.west + tile.east) / 2 };
+  const lonSpan = tile.east - tile.west;
+  const latSpan = tile.north - tile.south;
+
+  // At zoom z one 256px tile covers 360 / 2^z degrees of longitude (latitude scaled by cos)
+  const lonZoom = Math.log2((360 * TILING.viewportWidth) / (256 * lonSpan));
+  const latZoom = Math.log2(
+    (360 * TILING.viewportHeight * Math.cos((center.lat * Math.PI) / 180)) / (256 * latSpan),
+  );
+  const zoom = Math.min(19, Math.max(2, Math.floor(Math.min(lonZoom, latZoom))));
+
+  return { center, zoom };
+}
+
+// A tile is capped when it yields as many results as we allow per tile, runs out of pages,
+// or ends more than a page short of the total 2GIS reported (the site stopped paging early).
+// Smaller shortfalls come from ads and repeated cards, which splitting can't recover.
+export function isTileCapped(collection: SearchCollection, cap: number): boolean {
+  const { reportedTotal, pagesVisited } = collection.search;
+  const shortfall = (reportedTotal ?? 0) - collection.items.length;
+  return (
+    collection.items.length >= cap ||
+    (pagesVisited ?? 0) >= DEFAULT_LIMITS.maxSearchPages ||
+    shortfall > DEFAULT_LIMITS.searchPageSize
+  );
+}
+
+function initialTiles(area: TilingArea): QueuedTile[] {
+  return splitBoundingBox(area.bbox, TILING.initialGrid)
+    .filter((bbox) => !area.polygon || tileIntersectsPolygon(bbox, area.polygon))
+    .map((bbox) => ({ bbox, depth: 0 }));
+}
+
+function subdivideTile(tile: QueuedTile, area: TilingArea): QueuedTile[] {
+  return splitBoundingBox(tile.bbox, 2)
+    .filter((bbox) => !area.polygon || tileIntersectsPolygon(bbox, area.polygon))
+    .map((bbox) => ({ bbox, depth: tile.depth + 1 }));
+}
+
+// Run the query per map tile, subdividing capped tiles, and merge firm IDs across tiles
+export async function collectTiledSearchResults(
+  page: Page,
+  query: string,
+  location: ScrapeLocation,
+  area: TilingArea,
+  options: ScraperOptions,
+  logger: Logger,
+  limiter?: RateLimiter,
+  blockHandler?: BlockHandler,
+): Promise<SearchCollection> {
+  const items: SearchResultItem[] = [];
+  const seenIds = new Set<string>();
+  const queue = initialTiles(area);
+  const tiling: TilingMetadata = {
+    area,
+    tilesSearched: 0,
+    subdividedTiles: 0,
+    truncatedTiles: 0,
+    maxDepthReached: 0,
+  };
+  let pagesVisited = 0;
+  const tileOptions: ScraperOptions = { ...options, maxRecords: TILING.tileResultCap };
+
+  logger.info(`Tiled search: ${queue.length} initial tiles`);
+
+  while (queue.length > 0 && items.length < options.maxRecords) {
+    const tile = queue.shift();
+    if (!tile) break;
+
+    const viewport = tileViewport(tile.bbox);
+    const collection = await collectSearchResults(
+      page,
+      query,
+      location,
+      tileOptions,
+      logger,
+      { viewport },
+      limiter,
+      blockHandler,
+    );
+    tiling.tilesSearched++;
+    tiling.maxDepthReached = Math.max(tiling.maxDepthReached, tile.depth);
+    pagesVisited += collection.search.pagesVisited ?? 0;
+
+    const addedCount = mergeSearchItems(items, seenIds, collection.items, options.maxRecords);
+    logger.progress(
+      tiling.tilesSearched,
+      tiling.tilesSearched + queue.length,
+      `Tile depth ${tile.depth} @ ${viewport.center.lat.toFixed(4)},${viewport.center.lon.toFixed(4)}/${viewport.zoom}: ${collection.items.length} results, ${addedCount} new (total: ${items.length})`,
+    );
+
+    if (isTileCapped(collection, TILING.tileResultCap)) {
+      if (tile.depth < TILING.maxDepth) {
+        tiling.subdividedTiles++;
+        queue.push(...subdivideTile(tile, area));
+      } else {
+        tiling.truncatedTiles++;
+        logger.warn(`Tile still capped at max depth ${TILING.maxDepth}, results may be incomplete`);
+      }
+    }
+  }
+
+  return { items, search: { pagesVisited, tiling } };
+}
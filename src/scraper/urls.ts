@@ -0,0 +1,105 @@
+import { DEFAULT_CITY, DEFAULT_DOMAIN, SEARCH_FILTERS } from '../config.js';
+import type { MapViewport, SearchFilters } from '../types/index.js';
+import { searchFilterTokens } from './search-filters.js';
+
+export interface SearchUrlParams {
+  page?: number; // 1-based results page
+  viewport?: MapViewport; // Map position to search within
+  filters?: SearchFilters; // Search filters and sort order
+}
+
+// 2GIS URL builders, scoped to a domain (e.g. 2gis.ru, 2gis.kz) and city slug (e.g. moscow, almaty)
+
+export function buildFirmUrl(
+  firmId: string,
+  city: string = DEFAULT_CITY,
+  domain: string = DEFAULT_DOMAIN,
+): string {
+  return `https://${domain}/${city}/firm/${firmId}`;
+}
+
+export function buildReviewsUrl(
+  firmId: string,
+  city: string = DEFAULT_CITY,
+  domain: string = DEFAULT_DOMAIN,
+): string {
+  return `${buildFirmUrl(firmId, city, domain)}/tab/reviews`;
+}
+
+export function buildPhotosUrl(
+  firmId: string,
+  city: string = DEFAULT_CITY,
+  domain: string = DEFAULT_DOMAIN,
+): string {
+  return `${buildFirmUrl(firmId, city, domain)}/tab/photos`;
+}
+
+// All branches of a chain (org) within one city
+export function buildBranchesUrl(
+  orgId: string,
+  city: string = DEFAULT_CITY,
+  domain: string = DEFAULT_DOMAIN,
+  page = 1,
+): string {
+  const url = `https://${domain}/${city}/branches/${orgId}`;
+  return page > 1 ? `${url}/page/${page}` : url;
+}
+
+// Public profile of a reviewer
+export function buildAuthorUrl(
+  authorId: string,
+  city: string = DEFAULT_CITY,
+  domain: string = DEFAULT_DOMAIN,
+): string {
+  return `https://${domain}/${city}/user/${encodeURIComponent(authorId)}`;
+}
+
+// Key and value encoded separately, keeping "=" literal as the site's filter panel writes it
+function encodeFilterToken(token: string): string {
+  return token.split('=').map(encodeURIComponent).join('=');
+}
+
+export function buildSearchUrl(
+  query: string,
+  city: string = DEFAULT_CITY,
+  domain: string = DEFAULT_DOMAIN,
+  params: SearchUrlParams = {},
+): string {
+  let url = `https://${domain}/${city}/search/${encodeURIComponent(query)}`;
+  const tokens = params.filters ? searchFilterTokens(params.filters) : [];
+  if (tokens.length > 0) {
+    url += `/filters/${tokens.map(encodeFilterToken).join(SEARCH_FILTERS.separator)}`;
+  }
+  if (params.page && params.page > 1) {
+    url += `/page/${params.page}`;
+  }
+
+  // Distance sorting is relative to the map center
+  const near = params.filters?.near;
+  const viewport = params.viewport ?? (near && { center: near, zoom: SEARCH_FILTERS.nearZoom });
+  if (viewport) {
+    const { center, zoom } = viewport;
+    const search = new URLSearchParams({
+      m: `${center.lon.toFixed(6)},${center.lat.toFixed(6)}/${zoom}`,
+    });
+    url += `?${search.toString()}`;
+  }
+
+  return url;
+}
+
+// Firms of one rubric, e.g. https://2gis.ru/moscow/rubricId/164
+export function buildRubricUrl(
+  rubricId: string,
+  city: string = DEFAULT_CITY,
+  domain: string = DEFAULT_DOMAIN,
+  page = 1,
+): string {
+  const url = `https://${domain}/${city}/rubricId/${rubricId}`;
+  return page > 1 ? `${url}/page/${page}` : url;
+}
+
+// CSS selector matching firm links in search results for the given city
+export function firmLinkSelector(city: string = DEFAULT_CITY): string {
+  return `a[href*="/${city}/firm/"]`;
+}
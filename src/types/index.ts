@@ -10,18 +10,129 @@ export interface Coordinates {
   lon: number;
 }
 
+export interface MapViewport {
+  center: Coordinates;
+  zoom: number;
+}
+
+// Geographic bounding box in degrees
+export interface BoundingBox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+// Area covered by a tiled search: a bounding box, optionally clipped to a polygon
+export interface TilingArea {
+  bbox: BoundingBox;
+  polygon?: Coordinates[];
+}
+
+// Company reply to a review
+export interface OfficialAnswer {
+  text: string;
+  dateCreated?: string;
+  responder?: string; // Organization name shown as the author of the reply
+}
+
+export interface ReviewComment {
+  id: string;
+  text: string;
+  dateCreated: string;
+  author?: string;
+  authorId?: string;
+}
+
+// Photo attached to a review
+export interface ReviewPhoto {
+  id: string;
+  url: string; // Largest available image
+  previewUrl?: string;
+  width?: number;
+  height?: number;
+  localPath?: string; // Set once downloaded
+}
+
 export interface Review {
   id: string;
   text: string;
   rating: number;
-  dateCreated: string;
+  dateCreated: string; // ISO 8601; display text only when dateUnparsed is set
   dateEdited?: string;
+  dateRaw?: string; // Displayed date text dateCreated was parsed from
+  dateUnparsed?: boolean; // Displayed date could not be converted to ISO
+  dateCreatedApproximate?: boolean; // Only the edit date was displayed; dateCreated is no later
   author?: string;
   authorId?: string;
+  authorReviewCount?: number; // Total reviews the author has written
   commentsCount?: number;
   source?: string;
   likes?: number;
   dislikes?: number;
+  photoCount?: number; // Photos attached to the review
+  photos?: ReviewPhoto[];
+  officialAnswer?: OfficialAnswer;
+  comments?: ReviewComment[]; // Only with comment scraping enabled
+}
+
+// Review from an author's history, linked to the organization it was left for
+export interface AuthorReview extends Review {
+  organizationId?: string;
+  organizationName?: string;
+}
+
+// Public reviewer profile with the review history scraped from it
+export interface ReviewAuthor {
+  id: string;
+  name?: string;
+  reviewCount?: number; // Total reported by 2GIS, may exceed the scraped reviews
+  organizationCount: number; // Distinct organizations among the scraped reviews
+  averageRating?: number;
+  reviews: AuthorReview[];
+}
+
+export type PhotoCategory = 'interior' | 'exterior' | 'menu' | 'food' | 'other';
+
+// Album listed on the organization card
+export interface PhotoAlbum {
+  id?: string;
+  name?: string;
+  category: PhotoCategory;
+  count?: number;
+}
+
+// Photo from the organization's albums
+export interface OrganizationPhoto {
+  id: string;
+  url: string;
+  previewUrl?: string;
+  width?: number;
+  height?: number;
+  caption?: string;
+  category: PhotoCategory;
+  albumId?: string;
+  uploadedAt?: string;
+  localPath?: string; // Set once downloaded
+  contentHash?: string; // SHA-256 of the downloaded file
+}
+
+// Rubric (business category) assigned to a firm
+export interface Rubric {
+  id?: string;
+  name: string;
+  alias?: string; // URL slug
+  primary?: boolean; // The firm's main rubric (2GIS kind "primary")
+  parentId?: string; // Rubric group it belongs to
+}
+
+// Rubric taxonomy node built from saved firms
+export interface RubricNode {
+  id: string;
+  name?: string; // Unknown for groups only seen as a parentId
+  alias?: string;
+  firmCount: number; // Saved firms carrying this rubric
+  children: RubricNode[];
 }
 
 export interface ScrapedOrganization {
@@ -41,7 +152,7 @@ export interface ScrapedOrganization {
   schedule?: string;
   rating?: number;
   reviewCount?: number;
-  rubrics: string[];
+  rubrics: Rubric[];
   // Review summary
   reviewSummary?: {
     rating: number;
@@ -64,26 +175,193 @@ export interface ScrapedOrganization {
   features?: string[];
   orgName?: string;
   orgId?: string;
+  firmId?: string; // Branch (firm) ID the page was scraped from
   branchCount?: number;
   photoCount?: number;
   hasPhotos?: boolean;
   createdAt?: string;
   updatedAt?: string;
   reviews?: Review[];
+  reviewSync?: ReviewSyncSummary; // Set when reviews were synced incrementally
+  matchedQueries?: string[]; // Batch queries that found this firm (list mode)
+  distanceMeters?: number; // Distance shown on the search card (list mode)
+  advertiser?: boolean; // Search card carries the ad badge (list mode)
+  photoAlbums?: PhotoAlbum[]; // Only with photo scraping enabled
+  photos?: OrganizationPhoto[];
+}
+
+// Outcome of an incremental review sync against the previously saved reviews
+export interface ReviewSyncSummary {
+  known: number;
+  added: number;
+  edited: number;
+  changedIds: string[]; // IDs of new and edited reviews
+}
+
+export type ReviewSort = 'newest' | 'useful' | 'rating-asc' | 'rating-desc';
+
+// Ordering and filters applied on the reviews tab
+export interface ReviewQuery {
+  sort?: ReviewSort;
+  ratings?: number[]; // Keep only these star ratings, e.g. [1, 2]
+  withPhotos?: boolean; // Keep only reviews with attached photos
 }
 
 export type ScrapingMode = 'list' | 'full' | 'full-with-reviews';
 
+export type Language = 'ru' | 'en' | 'kk' | 'ar';
+
+export interface ScrapeLocation {
+  domain: string; // 2GIS country domain, e.g. 2gis.ru, 2gis.kz
+  city: string; // City slug used in URLs, e.g. moscow, almaty
+  language: Language; // Interface language used for UI strings
+}
+
+// Browser identity for one context; locale and timezone default to the scraped domain's
+export interface FingerprintProfile {
+  userAgent: string;
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+  locale?: string; // e.g. ru-RU
+  timezoneId?: string; // e.g. Europe/Moscow
+  acceptLanguage?: string; // Accept-Language header, derived from locale when omitted
+}
+
+// Playwright proxy settings for one exit
+export interface ProxyConfig {
+  server: string; // e.g. http://10.0.0.1:8080, socks5://host:1080
+  username?: string;
+  password?: string;
+}
+
 export interface ScraperOptions {
   query?: string;
+  queries?: string[]; // Batch of search queries merged into one list (list mode)
+  rubricId?: string; // Collect all firms of this rubric instead of a free-text query
   orgId?: string;
   fromList?: string; // Path to list file for stage 2
-  delayMs: number;
+  domain?: string; // 2GIS domain (e.g. 2gis.ru, 2gis.kz); falls back to list file, then 2gis.ru
+  city?: string; // 2GIS city slug (e.g. moscow, spb); falls back to list file, then domain default
+  language?: Language; // Interface language; falls back to list file, then domain default
+  tiling?: TilingArea; // Split the search area into map tiles to bypass result caps
+  searchFilters?: SearchFilters; // Search filters and sort order (query searches)
+  delayMs: number; // Minimum delay between navigations of each page (with jitter)
+  requestsPerMinute?: number; // Global navigation budget across pages, 0 = unlimited
   maxRecords: number;
   maxRetries: number;
   headless: boolean;
   scrapingMode: ScrapingMode;
   maxReviewsPerOrg: number;
+  includeComments?: boolean; // Fetch comment threads of reviews (full-with-reviews)
+  maxCommentsPerOrg?: number; // Cap on fetched comments per organization
+  incrementalReviews?: boolean; // Only fetch reviews newer than the saved ones (full-with-reviews)
+  reviewQuery?: ReviewQuery; // Review sort order and filters (full-with-reviews)
+  downloadReviewPhotos?: boolean; // Save review photo files (full-with-reviews)
+  includePhotos?: boolean; // List organization album photos (full, full-with-reviews)
+  maxPhotosPerOrg?: number; // Cap on listed photos per organization
+  downloadPhotos?: boolean; // Save organization photo files, de-duplicated by content hash
+  maxPhotoBytes?: number; // Size limit for saved organization photo files
+  concurrency?: number; // Parallel browser pages for firm scraping (default: 1)
+  proxies?: ProxyConfig[]; // Proxy exits rotated across browser contexts
+  fingerprints?: string[]; // Fingerprint profile names (default: desktop-chrome)
+  rotateFingerprints?: boolean; // Give each new browser context the next profile
+  fingerprintProfiles?: Record<string, FingerprintProfile>; // Custom profiles by name
+}
+
+// Author crawling shares the browser, rate limit and location options of regular scraping
+export interface AuthorScraperOptions
+  extends Pick<
+    ScraperOptions,
+    | 'domain'
+    | 'city'
+    | 'language'
+    | 'delayMs'
+    | 'requestsPerMinute'
+    | 'maxRetries'
+    | 'headless'
+    | 'concurrency'
+    | 'proxies'
+    | 'fingerprints'
+    | 'rotateFingerprints'
+    | 'fingerprintProfiles'
+  > {
+  authorIds: string[];
+  maxReviewsPerAuthor: number;
+}
+
+// Chain to enumerate in branches mode: one of its branches or the chain (org) itself
+export interface BranchesTarget {
+  firmId?: string;
+  orgId?: string;
+  cities?: string[]; // City slugs to list branches in (default: the run's city)
+}
+
+export interface BranchScraperOptions
+  extends Omit<ScraperOptions, 'query' | 'queries' | 'rubricId' | 'orgId' | 'fromList'> {
+  branches: BranchesTarget;
+}
+
+// Chain-level manifest linking the org entity to its branch firms
+export interface ChainManifest {
+  orgId: string;
+  orgName?: string;
+  reportedBranchCount?: number; // branch_count reported by 2GIS for the whole chain
+  cities: { city: string; firmIds: string[] }[];
+  firmIds: string[]; // All branches found, in listing order
+  scrapedFirmIds: string[];
+  failedFirmIds: string[];
+}
+
+// Firm card collected from search results
+export interface SearchResultItem {
+  firmId: string;
+  url: string;
+  name: string;
+  container: string; // Card outerHTML
+  lines?: string[]; // Card text, one entry per visible line
+  // biome-ignore lint/suspicious/noExplicitAny: 2GIS API item structure is dynamic
+  data?: any; // Catalog API item captured while the results page loaded
+}
+
+export type SearchSort = 'relevance' | 'rating' | 'distance';
+
+// 2GIS search filters and sort order applied to a search query
+export interface SearchFilters {
+  openNow?: boolean;
+  open24h?: boolean;
+  minRating?: number;
+  withPhotos?: boolean;
+  attributes?: string[]; // Attribute filter codes as used by 2GIS, e.g. wifi
+  sort?: SearchSort;
+  near?: Coordinates; // Point results are sorted by distance from
+}
+
+// Search stage details recorded in list file metadata
+export interface SearchMetadata {
+  reportedTotal?: number; // Total result count reported by 2GIS
+  pagesVisited?: number;
+  tiling?: TilingMetadata;
+  filters?: SearchFilters; // Filters and sort order the list was collected with
+  queries?: BatchQueryMetadata[]; // Per-query results of a batch list
+}
+
+// One query of a batch list
+export interface BatchQueryMetadata {
+  query: string;
+  results: number; // Firms found by this query
+  newFirms: number; // Firms no earlier query of the batch had found
+  reportedTotal?: number;
+  pagesVisited?: number;
+}
+
+export interface TilingMetadata {
+  area: TilingArea;
+  tilesSearched: number;
+  subdividedTiles: number; // Tiles that hit the result cap and were split further
+  truncatedTiles: number; // Tiles that hit the result cap at maximum depth
+  maxDepthReached: number;
 }
 
 export interface DataExtractionResult {
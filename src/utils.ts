@@ -1,3 +1,5 @@
+import type { SearchMetadata } from './types/index.js';
+
 // Logger utility with timestamps
 export class Logger {
   private startTime: number;
@@ -42,8 +44,12 @@ export interface Metadata {
   endpoint: string;
   statusCode: number;
   query: unknown;
+  domain?: string;
+  city?: string;
+  language?: string;
   responseTimeMs?: number;
   totalResults?: number;
+  search?: SearchMetadata;
   enrichedCount?: number;
   searchResponseTimeMs?: number;
   byIdResponseTimeMs?: number;
@@ -96,8 +102,12 @@ export interface CreateMetadataParams {
   endpoint: string;
   statusCode: number;
   query: unknown;
+  domain?: string;
+  city?: string;
+  language?: string;
   responseTimeMs?: number;
   totalResults?: number;
+  search?: SearchMetadata;
 }
 
 export function createMetadata(params: CreateMetadataParams): Metadata {
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { classifyBlockedPage, type PageSnapshot } from '../src/scraper/anti-bot.js';
+
+const regularPage: PageSnapshot = {
+  url: 'https://2gis.ru/moscow/firm/70000001044609041',
+  status: 200,
+  title: 'Кальянная — Москва | 2ГИС',
+  text: 'Кальянная\nТверская улица, 1\nОтзывы',
+  hasCaptchaWidget: false,
+};
+
+describe('classifyBlockedPage', () => {
+  it('should return null for a regular page', () => {
+    expect(classifyBlockedPage(regularPage)).toBeNull();
+  });
+
+  it('should flag blocking HTTP statuses', () => {
+    expect(classifyBlockedPage({ ...regularPage, status: 429 })).toBe('HTTP 429');
+    expect(classifyBlockedPage({ ...regularPage, status: 403 })).toBe('HTTP 403');
+  });
+
+  it('should not flag other error statuses', () => {
+    expect(classifyBlockedPage({ ...regularPage, status: 404 })).toBeNull();
+  });
+
+  it('should flag redirects to a captcha URL', () => {
+    expect(
+      classifyBlockedPage({ ...regularPage, url: 'https://2gis.ru/captcha?retpath=/moscow' }),
+    ).toBe('redirected to captcha');
+  });
+
+  it('should flag pages with a captcha widget', () => {
+    expect(classifyBlockedPage({ ...regularPage, hasCaptchaWidget: true })).toBe(
+      'captcha widget on page',
+    );
+  });
+
+  it('should flag pages by text markers case-insensitively', () => {
+    expect(
+      classifyBlockedPage({ ...regularPage, title: 'Подтвердите, что вы НЕ РОБОТ', text: '' }),
+    ).toBe('page text contains "не робот"');
+    expect(
+      classifyBlockedPage({
+        ...regularPage,
+        text: 'We detected unusual traffic from your network',
+      }),
+    ).toBe('page text contains "unusual traffic"');
+  });
+
+  it('should handle a missing response status', () => {
+    expect(classifyBlockedPage({ ...regularPage, status: undefined })).toBeNull();
+  });
+});
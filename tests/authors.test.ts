@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildReviewAuthor,
+  isAuthorReviewsUrl,
+  mapAuthorReview,
+  parseAuthorReviewsResponse,
+} from '../src/scraper/authors.js';
+import type { AuthorReview } from '../src/types/index.js';
+
+const rawReview = {
+  id: 'r-1',
+  text: 'Отличное место',
+  rating: 5,
+  date_created: '2025-11-02T12:30:00.000000+07:00',
+  user: { id: 'u-1', name: 'Анна', reviews_count: 42 },
+  object: { id: '70000001044609041', name: 'Кофейня' },
+};
+
+describe('authors', () => {
+  describe('isAuthorReviewsUrl', () => {
+    it('should match the user review history endpoint', () => {
+      expect(
+        isAuthorReviewsUrl(
+          'https://public-api.reviews.2gis.com/2.0/users/a1b2-c3/reviews?limit=20',
+        ),
+      ).toBe(true);
+      expect(
+        isAuthorReviewsUrl('https://public-api.reviews.2gis.com/2.0/branches/123/reviews'),
+      ).toBe(false);
+    });
+  });
+
+  describe('mapAuthorReview', () => {
+    it('should link the review to its organization', () => {
+      const review = mapAuthorReview(rawReview);
+
+      expect(review.organizationId).toBe('70000001044609041');
+      expect(review.organizationName).toBe('Кофейня');
+      expect(review.authorReviewCount).toBe(42);
+    });
+  });
+
+  describe('parseAuthorReviewsResponse', () => {
+    it('should parse reviews, cursor, total and author name', () => {
+      const page = parseAuthorReviewsResponse({
+        meta: { code: 200, total_count: 42, next_link: 'https://next' },
+        reviews: [rawReview, { text: 'no id' }],
+      });
+
+      expect(page?.reviews).toHaveLength(1);
+      expect(page?.nextLink).toBe('https://next');
+      expect(page?.total).toBe(42);
+      expect(page?.name).toBe('Анна');
+    });
+
+    it('should reject error responses', () => {
+      expect(parseAuthorReviewsResponse({ meta: { code: 404 } })).toBeNull();
+    });
+  });
+
+  describe('buildReviewAuthor', () => {
+    it('should summarize organizations and ratings', () => {
+      const reviews: AuthorReview[] = [
+        { id: '1', text: 'a', rating: 5, dateCreated: '2025-01-01', organizationId: 'o1' },
+        { id: '2', text: 'b', rating: 4, dateCreated: '2025-01-02', organizationId: 'o1' },
+        { id: '3', text: 'c', rating: 1, dateCreated: '2025-01-03', organizationId: 'o2' },
+      ];
+
+      expect(buildReviewAuthor('u-1', reviews, 'Анна', 42)).toEqual({
+        id: 'u-1',
+        name: 'Анна',
+        reviewCount: 42,
+        organizationCount: 2,
+        averageRating: 3.33,
+        reviews,
+      });
+    });
+
+    it('should omit the average without rated reviews', () => {
+      expect(buildReviewAuthor('u-1', [])).toEqual({
+        id: 'u-1',
+        organizationCount: 0,
+        reviews: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { mergeQueryResults, parseQueryList } from '../src/scraper/batch.js';
+import type { SearchResultItem } from '../src/types/index.js';
+
+const item = (firmId: string, data?: SearchResultItem['data']): SearchResultItem => ({
+  firmId,
+  url: `https://2gis.ru/moscow/firm/${firmId}`,
+  name: `Firm ${firmId}`,
+  container: '',
+  ...(data && { data }),
+});
+
+describe('batch', () => {
+  describe('parseQueryList', () => {
+    it('should skip blank lines, comments and duplicates', () => {
+      const text = '# hookah\nкальян\n\n  кальянная  # lounge\nкальян\r\nhookah lounge\n';
+
+      expect(parseQueryList(text)).toEqual(['кальян', 'кальянная', 'hookah lounge']);
+    });
+  });
+
+  describe('mergeQueryResults', () => {
+    it('should de-duplicate firms and record every matching query', () => {
+      const merged = mergeQueryResults([
+        { query: 'кальян', items: [item('1'), item('2')] },
+        { query: 'кальянная', items: [item('2'), item('3')] },
+        { query: 'hookah lounge', items: [item('1')] },
+      ]);
+
+      expect(merged.map((m) => m.item.firmId)).toEqual(['1', '2', '3']);
+      expect(merged.map((m) => m.matchedQueries)).toEqual([
+        ['кальян', 'hookah lounge'],
+        ['кальян', 'кальянная'],
+        ['кальянная'],
+      ]);
+    });
+
+    it('should fill in catalog data from a later query', () => {
+      const merged = mergeQueryResults([
+        { query: 'a', items: [item('1')] },
+        { query: 'b', items: [item('1', { name: 'Lounge' })] },
+      ]);
+
+      expect(merged[0]?.item.data).toEqual({ name: 'Lounge' });
+    });
+  });
+});
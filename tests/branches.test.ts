@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildChainManifest,
+  extractChainInfo,
+  resolveBranchCities,
+} from '../src/scraper/branches.js';
+import type { ScrapeLocation } from '../src/types/index.js';
+
+const location: ScrapeLocation = { domain: '2gis.kz', city: 'almaty', language: 'ru' };
+
+describe('branches', () => {
+  describe('extractChainInfo', () => {
+    it('should read the chain from item.org', () => {
+      expect(
+        extractChainInfo({ org: { id: '70000001018048364', name: 'Кофейня', branch_count: 42 } }),
+      ).toEqual({ orgId: '70000001018048364', orgName: 'Кофейня', branchCount: 42 });
+    });
+
+    it('should return undefined for firms without a chain', () => {
+      expect(extractChainInfo({ name: 'Одиночка' })).toBeUndefined();
+      expect(extractChainInfo(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('resolveBranchCities', () => {
+    it('should default to the run city', () => {
+      expect(resolveBranchCities({ orgId: '1' }, location)).toEqual(['almaty']);
+    });
+
+    it('should de-duplicate explicit cities', () => {
+      expect(
+        resolveBranchCities({ orgId: '1', cities: ['astana', 'almaty', 'astana'] }, location),
+      ).toEqual(['astana', 'almaty']);
+    });
+
+    it('should expand "all" to the domain cities', () => {
+      expect(resolveBranchCities({ orgId: '1', cities: ['all'] }, location)).toContain('astana');
+      expect(
+        resolveBranchCities(
+          { orgId: '1', cities: ['all'] },
+          { ...location, domain: 'example.com' },
+        ),
+      ).toEqual(['almaty']);
+    });
+  });
+
+  describe('buildChainManifest', () => {
+    it('should link the chain to scraped and failed branches', () => {
+      const manifest = buildChainManifest(
+        { orgId: 'o1', branchCount: 3 },
+        [
+          { city: 'almaty', firmIds: ['f1', 'f2'] },
+          { city: 'astana', firmIds: ['f3'] },
+        ],
+        [
+          { name: 'A', address: '', rubrics: [], firmId: 'f1', orgName: 'Сеть' },
+          { name: 'C', address: '', rubrics: [], firmId: 'f3' },
+        ],
+      );
+
+      expect(manifest).toEqual({
+        orgId: 'o1',
+        orgName: 'Сеть',
+        reportedBranchCount: 3,
+        cities: [
+          { city: 'almaty', firmIds: ['f1', 'f2'] },
+          { city: 'astana', firmIds: ['f3'] },
+        ],
+        firmIds: ['f1', 'f2', 'f3'],
+        scrapedFirmIds: ['f1', 'f3'],
+        failedFirmIds: ['f2'],
+      });
+    });
+  });
+});
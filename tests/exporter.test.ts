@@ -69,6 +69,29 @@ describe('exporter', () => {
 
       expect(result).toContain('Said ""hello""');
     });
+
+    it('should add official answer columns when any review has an answer', () => {
+      const reviews = [
+        {
+          text: 'Slow service',
+          rating: 2,
+          officialAnswerText: 'Sorry, we will improve',
+          officialAnswerDate: '2025-11-03T10:00:00+03:00',
+          officialAnswerResponder: 'Cafe "Luna"',
+        },
+        { text: 'Great!', rating: 5 },
+      ];
+
+      const lines = exportToCSV(reviews).split('\n');
+
+      expect(lines[0]).toBe(
+        'rating,text,official_answer_text,official_answer_date,official_answer_responder',
+      );
+      expect(lines[1]).toBe(
+        '2,"Slow service","Sorry, we will improve","2025-11-03T10:00:00+03:00","Cafe ""Luna"""',
+      );
+      expect(lines[2]).toBe('5,"Great!","","",""');
+    });
   });
 
   describe('collectReviews', () => {
@@ -79,6 +102,31 @@ describe('exporter', () => {
       expect(reviews[0]).toEqual({ text: 'Great place!', rating: 5 });
     });
 
+    it('should flatten official answers into optional fields', async () => {
+      writeFileSync(
+        `${testDir}/answered-reviews.json`,
+        JSON.stringify({
+          data: [
+            {
+              text: 'Slow service',
+              rating: 2,
+              officialAnswer: { text: 'Sorry!', dateCreated: '2025-11-03', responder: 'Cafe' },
+            },
+          ],
+        }),
+      );
+
+      const reviews = await collectReviews(testDir);
+
+      expect(reviews).toContainEqual({
+        text: 'Slow service',
+        rating: 2,
+        officialAnswerText: 'Sorry!',
+        officialAnswerDate: '2025-11-03',
+        officialAnswerResponder: 'Cafe',
+      });
+    });
+
     it('should throw error if directory does not exist', async () => {
       await expect(collectReviews('nonexistent-dir')).rejects.toThrow(
         'Reviews directory not found',
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { FINGERPRINT_PROFILES } from '../src/config.js';
+import { UnknownFingerprintError } from '../src/errors.js';
+import {
+  buildAcceptLanguage,
+  FingerprintRotation,
+  fingerprintContextOptions,
+  resolveFingerprints,
+} from '../src/scraper/fingerprint.js';
+
+const defaults = { locale: 'kk-KZ', timezoneId: 'Asia/Almaty' };
+
+describe('fingerprint', () => {
+  describe('resolveFingerprints', () => {
+    it('should default to the desktop-chrome profile', () => {
+      expect(resolveFingerprints().map((f) => f.name)).toEqual(['desktop-chrome']);
+      expect(resolveFingerprints([]).map((f) => f.name)).toEqual(['desktop-chrome']);
+    });
+
+    it('should prefer custom profiles over built-in ones', () => {
+      const custom = { ...FINGERPRINT_PROFILES['mobile-android'], deviceScaleFactor: 4 };
+      const [resolved] = resolveFingerprints(['mobile-android'], { 'mobile-android': custom });
+      expect(resolved?.profile.deviceScaleFactor).toBe(4);
+    });
+
+    it('should throw UnknownFingerprintError for unknown names', () => {
+      expect(() => resolveFingerprints(['tablet-unknown'])).toThrow(UnknownFingerprintError);
+    });
+  });
+
+  describe('fingerprintContextOptions', () => {
+    it('should fall back to the domain locale and timezone', () => {
+      const options = fingerprintContextOptions(FINGERPRINT_PROFILES['desktop-chrome'], defaults);
+      expect(options).toMatchObject({
+        locale: 'kk-KZ',
+        timezoneId: 'Asia/Almaty',
+        isMobile: false,
+        extraHTTPHeaders: { 'Accept-Language': 'kk-KZ,kk;q=0.9' },
+      });
+    });
+
+    it('should apply mobile settings and pinned locale', () => {
+      const options = fingerprintContextOptions(
+        { ...FINGERPRINT_PROFILES['mobile-iphone'], locale: 'en-US', acceptLanguage: 'en-US' },
+        defaults,
+      );
+      expect(options).toMatchObject({
+        viewport: { width: 390, height: 844 },
+        deviceScaleFactor: 3,
+        isMobile: true,
+        hasTouch: true,
+        locale: 'en-US',
+        extraHTTPHeaders: { 'Accept-Language': 'en-US' },
+      });
+    });
+  });
+
+  describe('buildAcceptLanguage', () => {
+    it('should add the bare language with lower priority', () => {
+      expect(buildAcceptLanguage('ru-RU')).toBe('ru-RU,ru;q=0.9');
+      expect(buildAcceptLanguage('en')).toBe('en');
+    });
+  });
+
+  describe('FingerprintRotation', () => {
+    const fingerprints = resolveFingerprints(['desktop-chrome', 'mobile-android']);
+
+    it('should always return the first profile without rotation', () => {
+      const rotation = new FingerprintRotation(fingerprints);
+      expect([rotation.next().name, rotation.next().name]).toEqual([
+        'desktop-chrome',
+        'desktop-chrome',
+      ]);
+    });
+
+    it('should cycle through profiles when rotating', () => {
+      const rotation = new FingerprintRotation(fingerprints, true);
+      expect([rotation.next().name, rotation.next().name, rotation.next().name]).toEqual([
+        'desktop-chrome',
+        'mobile-android',
+        'desktop-chrome',
+      ]);
+    });
+  });
+});
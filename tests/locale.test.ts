@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { UnsupportedLocaleError } from '../src/errors.js';
+import {
+  getBrowserLocale,
+  getBrowserTimezone,
+  getUiStrings,
+  resolveLocation,
+} from '../src/scraper/locale.js';
+
+describe('locale', () => {
+  describe('resolveLocation', () => {
+    it('should default to 2gis.ru, moscow and Russian', () => {
+      expect(resolveLocation({})).toEqual({ domain: '2gis.ru', city: 'moscow', language: 'ru' });
+    });
+
+    it('should use domain defaults for city and language', () => {
+      expect(resolveLocation({ domain: '2gis.ae' })).toEqual({
+        domain: '2gis.ae',
+        city: 'dubai',
+        language: 'en',
+      });
+    });
+
+    it('should prefer explicit options over list file values', () => {
+      const location = resolveLocation(
+        { city: 'spb' },
+        { domain: '2gis.ru', city: 'kazan', language: 'ru' },
+      );
+      expect(location.city).toBe('spb');
+    });
+
+    it('should fall back to list file values', () => {
+      expect(resolveLocation({}, { domain: '2gis.kz', city: 'astana', language: 'kk' })).toEqual({
+        domain: '2gis.kz',
+        city: 'astana',
+        language: 'kk',
+      });
+    });
+
+    it('should throw for unsupported domains', () => {
+      expect(() => resolveLocation({ domain: '2gis.xx' })).toThrow(UnsupportedLocaleError);
+    });
+
+    it('should throw for unsupported languages', () => {
+      expect(() => resolveLocation({ language: 'de' })).toThrow(UnsupportedLocaleError);
+    });
+  });
+
+  describe('getUiStrings', () => {
+    it('should return localized UI strings', () => {
+      expect(getUiStrings('ru').paymentMethods).toBe('Способы оплаты');
+      expect(getUiStrings('en').loadMore).toBe('Load more');
+    });
+  });
+
+  describe('getBrowserLocale', () => {
+    it('should combine language and domain country', () => {
+      expect(getBrowserLocale({ domain: '2gis.kz', city: 'almaty', language: 'kk' })).toBe('kk-KZ');
+      expect(getBrowserLocale({ domain: '2gis.ae', city: 'dubai', language: 'ar' })).toBe('ar-AE');
+    });
+  });
+
+  describe('getBrowserTimezone', () => {
+    it('should use the domain timezone', () => {
+      expect(getBrowserTimezone({ domain: '2gis.ru', city: 'moscow', language: 'ru' })).toBe(
+        'Europe/Moscow',
+      );
+      expect(getBrowserTimezone({ domain: '2gis.ae', city: 'dubai', language: 'en' })).toBe(
+        'Asia/Dubai',
+      );
+    });
+  });
+});
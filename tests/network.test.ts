@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ApiResponseCapture,
+  apiItemFirmId,
+  isCatalogApiUrl,
+  parseCatalogResponse,
+} from '../src/scraper/network.js';
+
+const byIdUrl = 'https://catalog.api.2gis.ru/3.0/items/byid?id=70000001044609041&key=abc';
+const searchUrl = 'https://catalog.api.2gis.com/3.0/items?q=кафе&page=2&key=abc';
+
+function catalogBody(items: Array<{ id: string; name?: string }>, total?: number) {
+  return { meta: { code: 200 }, result: { items, ...(total !== undefined && { total }) } };
+}
+
+describe('network', () => {
+  describe('isCatalogApiUrl', () => {
+    it('should match catalog items endpoints', () => {
+      expect(isCatalogApiUrl(byIdUrl)).toBe(true);
+      expect(isCatalogApiUrl(searchUrl)).toBe(true);
+    });
+
+    it('should ignore other requests', () => {
+      expect(isCatalogApiUrl('https://2gis.ru/moscow/firm/70000001044609041')).toBe(false);
+      expect(isCatalogApiUrl('https://tile.api.2gis.ru/tiles?x=1')).toBe(false);
+    });
+  });
+
+  describe('apiItemFirmId', () => {
+    it('should strip the hash suffix', () => {
+      expect(apiItemFirmId({ id: '70000001044609041_XyZ' })).toBe('70000001044609041');
+      expect(apiItemFirmId({ id: '70000001044609041' })).toBe('70000001044609041');
+      expect(apiItemFirmId({})).toBeUndefined();
+    });
+  });
+
+  describe('parseCatalogResponse', () => {
+    it('should classify byid and search responses', () => {
+      expect(parseCatalogResponse(byIdUrl, catalogBody([{ id: '1' }]))?.kind).toBe('byid');
+      expect(parseCatalogResponse(searchUrl, catalogBody([{ id: '1' }], 120))).toMatchObject({
+        kind: 'search',
+        total: 120,
+      });
+    });
+
+    it('should reject error responses and unexpected shapes', () => {
+      expect(parseCatalogResponse(byIdUrl, { meta: { code: 404 } })).toBeNull();
+      expect(parseCatalogResponse(byIdUrl, { meta: { code: 200 }, result: {} })).toBeNull();
+    });
+  });
+
+  describe('ApiResponseCapture', () => {
+    it('should find the latest item for a firm', () => {
+      const capture = new ApiResponseCapture();
+      capture.record(searchUrl, catalogBody([{ id: '1_a', name: 'old' }]));
+      capture.record(byIdUrl, catalogBody([{ id: '1_b', name: 'new' }]));
+
+      expect(capture.findItem('1')?.item.name).toBe('new');
+      expect(capture.findItem('2')).toBeUndefined();
+    });
+
+    it('should report the total of the latest search response', () => {
+      const capture = new ApiResponseCapture();
+      capture.record(searchUrl, catalogBody([], 300));
+      capture.record(byIdUrl, catalogBody([{ id: '1' }], 1));
+
+      expect(capture.reportedTotal()).toBe(300);
+    });
+
+    it('should forget responses on clear', () => {
+      const capture = new ApiResponseCapture();
+      capture.record(byIdUrl, catalogBody([{ id: '1' }]));
+      capture.clear();
+
+      expect(capture.findItem('1')).toBeUndefined();
+    });
+
+    it('should resolve waiters when the item arrives', async () => {
+      const capture = new ApiResponseCapture();
+      const waiting = capture.waitForItem('7', 1000);
+      capture.record(byIdUrl, catalogBody([{ id: '7_x' }]));
+
+      expect((await waiting)?.item.id).toBe('7_x');
+    });
+
+    it('should resolve undefined after the timeout', async () => {
+      const capture = new ApiResponseCapture();
+
+      expect(await capture.waitForItem('7', 10)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import type { Page } from 'playwright';
+import { describe, expect, it } from 'vitest';
+import { BlockedPageError } from '../src/errors.js';
+import {
+  categorizePhoto,
+  extractPhotoAlbums,
+  isPhotoApiUrl,
+  mapOrganizationPhoto,
+  parsePhotoResponse,
+  scrapeOrganizationPhotos,
+} from '../src/scraper/org-photos.js';
+import { Logger } from '../src/utils.js';
+
+const rawPhoto = {
+  id: '12345',
+  url: 'https://i0.photo.2gis.com/images/branch/0/a.jpg',
+  preview_urls: { '320x': 'https://i0.photo.2gis.com/images/branch/0/a_320x.jpg' },
+  description: 'Основной зал',
+  date_created: '2025-06-01T10:00:00+03:00',
+  album: { code: 'interior', name: 'Интерьер' },
+  width: 1920,
+  height: 1080,
+};
+
+// Page whose photos tab loads one photo API page; fetching the next page throws nextPageError
+function fakePhotosPage(firstBody: unknown, nextPageError: Error): Page {
+  const listeners = new Set<(response: unknown) => void>();
+  const apiUrl = 'https://api.photo.2gis.com/3.0/objects/1/photos';
+  let evaluations = 0;
+  return {
+    on: (_event: string, listener: (response: unknown) => void) => listeners.add(listener),
+    off: (_event: string, listener: (response: unknown) => void) => listeners.delete(listener),
+    url: () => 'https://2gis.ru/moscow/firm/1/tab/photos',
+    goto: async () => {
+      for (const listener of listeners) {
+        listener({ url: () => apiUrl, status: () => 200, json: async () => firstBody });
+      }
+      return null;
+    },
+    waitForResponse: async () => null,
+    // First evaluate is the blocked page check, the next one the cursor fetch
+    evaluate: async () => {
+      evaluations++;
+      if (evaluations === 1) return { title: '', text: '', hasCaptchaWidget: false };
+      throw nextPageError;
+    },
+  } as unknown as Page;
+}
+
+const firstPhotoPage = {
+  meta: { code: 200, next_link: 'https://api.photo.2gis.com/next' },
+  result: { items: [rawPhoto] },
+};
+
+describe('org-photos', () => {
+  describe('isPhotoApiUrl', () => {
+    it('should match the photo objects endpoint', () => {
+      expect(isPhotoApiUrl('https://api.photo.2gis.com/3.0/objects/70000001044609041/photos')).toBe(
+        true,
+      );
+      expect(isPhotoApiUrl('https://public-api.reviews.2gis.com/2.0/branches/1/reviews')).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('categorizePhoto', () => {
+    it('should map album labels to categories', () => {
+      expect(categorizePhoto('Интерьер')).toBe('interior');
+      expect(categorizePhoto(undefined, 'menu')).toBe('menu');
+      expect(categorizePhoto('Фасад здания')).toBe('exterior');
+      expect(categorizePhoto('Разное')).toBe('other');
+      expect(categorizePhoto()).toBe('other');
+    });
+  });
+
+  describe('extractPhotoAlbums', () => {
+    it('should summarize photo albums from external_content', () => {
+      const albums = extractPhotoAlbums({
+        external_content: [
+          { type: 'photo_album', subtype: 'interior', label: 'Интерьер', count: 12 },
+          { type: 'photo_album', subtype: 'common', count: 3 },
+          { type: 'booklet', count: 1 },
+        ],
+      });
+
+      expect(albums).toEqual([
+        { id: 'interior', name: 'Интерьер', category: 'interior', count: 12 },
+        { id: 'common', category: 'other', count: 3 },
+      ]);
+    });
+
+    it('should return no albums without external_content', () => {
+      expect(extractPhotoAlbums({})).toEqual([]);
+    });
+  });
+
+  describe('mapOrganizationPhoto', () => {
+    it('should keep caption, album, category and upload date', () => {
+      expect(mapOrganizationPhoto(rawPhoto)).toEqual({
+        id: '12345',
+        url: 'https://i0.photo.2gis.com/images/branch/0/a.jpg',
+        previewUrl: 'https://i0.photo.2gis.com/images/branch/0/a_320x.jpg',
+        width: 1920,
+        height: 1080,
+        caption: 'Основной зал',
+        category: 'interior',
+        albumId: 'interior',
+        uploadedAt: '2025-06-01T10:00:00+03:00',
+      });
+    });
+
+    it('should skip photos without a URL', () => {
+      expect(mapOrganizationPhoto({ id: '1' })).toBeUndefined();
+    });
+  });
+
+  describe('parsePhotoResponse', () => {
+    it('should parse items, cursor and total', () => {
+      const page = parsePhotoResponse({
+        meta: { code: 200, next_link: 'https://next', total_count: 40 },
+        result: { items: [rawPhoto, { id: '2' }] },
+      });
+
+      expect(page?.photos.map((p) => p.id)).toEqual(['12345']);
+      expect(page?.nextLink).toBe('https://next');
+      expect(page?.total).toBe(40);
+    });
+
+    it('should accept a bare photos list', () => {
+      expect(parsePhotoResponse({ photos: [rawPhoto] })?.photos).toHaveLength(1);
+    });
+
+    it('should reject error responses', () => {
+      expect(parsePhotoResponse({ meta: { code: 404 } })).toBeNull();
+      expect(parsePhotoResponse(null)).toBeNull();
+    });
+  });
+
+  describe('scrapeOrganizationPhotos', () => {
+    it('should keep the photos collected before a failed fetch', async () => {
+      const page = fakePhotosPage(firstPhotoPage, new Error('net::ERR_CONNECTION_RESET'));
+
+      const photos = await scrapeOrganizationPhotos(page, '1', 50, new Logger());
+
+      expect(photos.map((p) => p.id)).toEqual(['12345']);
+    });
+
+    it('should read the awaited first response before the collector stores it', async () => {
+      const page = {
+        on: () => {},
+        off: () => {},
+        url: () => 'https://2gis.ru/moscow/firm/1/tab/photos',
+        goto: async () => null,
+        waitForResponse: async () => ({
+          json: async () => ({ meta: { code: 200 }, result: { items: [rawPhoto] } }),
+        }),
+        evaluate: async () => ({ title: '', text: '', hasCaptchaWidget: false }),
+      } as unknown as Page;
+
+      const photos = await scrapeOrganizationPhotos(page, '1', 50, new Logger());
+
+      expect(photos.map((p) => p.id)).toEqual(['12345']);
+    });
+
+    it('should rethrow blocked pages', async () => {
+      const page = fakePhotosPage(
+        firstPhotoPage,
+        new BlockedPageError('Blocked', 'https://api.photo.2gis.com/next', 'HTTP 429'),
+      );
+
+      await expect(scrapeOrganizationPhotos(page, '1', 50, new Logger())).rejects.toThrow(
+        BlockedPageError,
+      );
+    });
+  });
+});
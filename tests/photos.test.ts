@@ -0,0 +1,139 @@
+import type { APIRequestContext } from 'playwright';
+import { describe, expect, it } from 'vitest';
+import { PHOTOS_PATHS, PhotoRepository } from '../src/repos/index.js';
+import {
+  downloadOrganizationPhotos,
+  downloadReviewPhotos,
+  photoFileName,
+} from '../src/scraper/photos.js';
+import type { OrganizationPhoto, Review } from '../src/types/index.js';
+import { Logger } from '../src/utils.js';
+
+// In-memory store instead of the filesystem
+class MemoryPhotoStore extends PhotoRepository {
+  files = new Map<string, Uint8Array>();
+
+  override async find(dirPath: string, fileName: string): Promise<string | undefined> {
+    const filePath = `${dirPath}/${fileName}`;
+    return this.files.has(filePath) ? filePath : undefined;
+  }
+
+  override async save(dirPath: string, fileName: string, body: Uint8Array): Promise<string> {
+    const filePath = `${dirPath}/${fileName}`;
+    this.files.set(filePath, body);
+    return filePath;
+  }
+}
+
+function fakeRequest(
+  failing: string[] = [],
+  bodies: Record<string, string> = {},
+): { request: APIRequestContext; urls: string[] } {
+  const urls: string[] = [];
+  const request = {
+    get: async (url: string) => {
+      urls.push(url);
+      const ok = !failing.includes(url);
+      const body = Buffer.from(bodies[url] ?? url);
+      return {
+        ok: () => ok,
+        status: () => (ok ? 200 : 404),
+        headers: () => ({ 'content-length': String(body.length) }),
+        body: async () => body,
+      };
+    },
+  } as unknown as APIRequestContext;
+  return { request, urls };
+}
+
+const reviews: Review[] = [
+  {
+    id: 'r1',
+    text: 'С фото',
+    rating: 5,
+    dateCreated: '2025-11-02',
+    photos: [
+      { id: 'p1', url: 'https://i0.photo.2gis.com/a.png' },
+      { id: 'p2', url: 'https://i0.photo.2gis.com/b' },
+    ],
+  },
+  { id: 'r2', text: 'Без фото', rating: 4, dateCreated: '2025-11-03' },
+];
+
+describe('photos', () => {
+  describe('photoFileName', () => {
+    it('should combine owner and photo IDs with the URL extension', () => {
+      expect(photoFileName('r1', { id: 'p1', url: 'https://x/a.PNG?w=1' })).toBe('r1-p1.png');
+      expect(photoFileName('r1', { id: 'p/2', url: 'https://x/b' })).toBe('r1-p_2.jpg');
+    });
+  });
+
+  describe('downloadReviewPhotos', () => {
+    it('should save photos and set their local paths', async () => {
+      const store = new MemoryPhotoStore();
+      const { request } = fakeRequest();
+      const copy = structuredClone(reviews);
+
+      const saved = await downloadReviewPhotos(request, copy, new Logger(), store);
+
+      expect(saved).toBe(2);
+      expect(copy[0]?.photos?.map((p) => p.localPath)).toEqual([
+        `${PHOTOS_PATHS.reviews}/r1-p1.png`,
+        `${PHOTOS_PATHS.reviews}/r1-p2.jpg`,
+      ]);
+    });
+
+    it('should reuse already downloaded files', async () => {
+      const store = new MemoryPhotoStore();
+      await store.save(PHOTOS_PATHS.reviews, 'r1-p1.png', new Uint8Array());
+      const { request, urls } = fakeRequest();
+
+      await downloadReviewPhotos(request, structuredClone(reviews), new Logger(), store);
+
+      expect(urls).toEqual(['https://i0.photo.2gis.com/b']);
+    });
+
+    it('should skip failed downloads and respect the cap', async () => {
+      const store = new MemoryPhotoStore();
+      const { request } = fakeRequest(['https://i0.photo.2gis.com/a.png']);
+      const copy = structuredClone(reviews);
+
+      expect(await downloadReviewPhotos(request, copy, new Logger(), store, 1)).toBe(1);
+      expect(copy[0]?.photos?.[0]?.localPath).toBeUndefined();
+      expect(copy[0]?.photos?.[1]?.localPath).toBeDefined();
+    });
+  });
+
+  describe('downloadOrganizationPhotos', () => {
+    const photos: OrganizationPhoto[] = [
+      { id: 'p1', url: 'https://i0.photo.2gis.com/a.png', category: 'interior' },
+      { id: 'p2', url: 'https://i1.photo.2gis.com/copy-of-a.png', category: 'menu' },
+      { id: 'p3', url: 'https://i0.photo.2gis.com/big.jpg', category: 'other' },
+    ];
+
+    it('should store identical files once under their content hash', async () => {
+      const store = new MemoryPhotoStore();
+      const { request } = fakeRequest([], {
+        'https://i0.photo.2gis.com/a.png': 'same',
+        'https://i1.photo.2gis.com/copy-of-a.png': 'same',
+        'https://i0.photo.2gis.com/big.jpg': 'other',
+      });
+      const copy = structuredClone(photos);
+
+      expect(await downloadOrganizationPhotos(request, copy, new Logger(), store)).toBe(3);
+      expect(copy[0]?.contentHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(copy[1]?.localPath).toBe(copy[0]?.localPath);
+      expect(copy[0]?.localPath).toBe(`${PHOTOS_PATHS.organizations}/${copy[0]?.contentHash}.png`);
+      expect(store.files.size).toBe(2);
+    });
+
+    it('should skip files over the size limit', async () => {
+      const store = new MemoryPhotoStore();
+      const { request } = fakeRequest([], { 'https://i0.photo.2gis.com/big.jpg': 'x'.repeat(100) });
+      const copy = structuredClone(photos);
+
+      expect(await downloadOrganizationPhotos(request, copy, new Logger(), store, 50)).toBe(2);
+      expect(copy[2]?.localPath).toBeUndefined();
+    });
+  });
+});
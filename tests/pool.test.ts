@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { runWorkerPool } from '../src/scraper/pool.js';
+import { sleep } from '../src/utils.js';
+
+describe('runWorkerPool', () => {
+  it('should keep results in input order regardless of completion order', async () => {
+    const items = [30, 5, 20, 1, 10];
+
+    const results = await runWorkerPool(['a', 'b', 'c'], items, async (_worker, delay) => {
+      await sleep(delay);
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 10, 40, 2, 20]);
+  });
+
+  it('should process every item exactly once across workers', async () => {
+    const processed: number[] = [];
+    const usedWorkers = new Set<string>();
+
+    await runWorkerPool(['a', 'b'], [1, 2, 3, 4, 5, 6], async (worker, item) => {
+      usedWorkers.add(worker);
+      await sleep(1);
+      processed.push(item);
+    });
+
+    expect([...processed].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(usedWorkers.size).toBe(2);
+  });
+
+  it('should run at most one item per worker at a time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await runWorkerPool([1, 2], [1, 2, 3, 4, 5], async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(2);
+      running--;
+    });
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should handle an empty item list', async () => {
+    expect(await runWorkerPool(['a'], [], async () => 1)).toEqual([]);
+  });
+});
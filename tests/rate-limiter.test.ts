@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { RATE_LIMIT } from '../src/config.js';
+import { type Clock, RateLimiter } from '../src/scraper/rate-limiter.js';
+
+function createFakeClock(): Clock & { sleeps: number[] } {
+  let now = 0;
+  const sleeps: number[] = [];
+  return {
+    sleeps,
+    now: () => now,
+    sleep: async (ms: number) => {
+      sleeps.push(ms);
+      now += ms;
+    },
+  };
+}
+
+describe('RateLimiter', () => {
+  it('should not wait for the first navigation', async () => {
+    const clock = createFakeClock();
+    const limiter = new RateLimiter(
+      { minIntervalMs: 1000, jitterRatio: 0, requestsPerMinute: 0 },
+      undefined,
+      clock,
+    );
+
+    await limiter.acquire();
+
+    expect(clock.sleeps).toEqual([]);
+  });
+
+  it('should enforce the minimum interval per worker', async () => {
+    const clock = createFakeClock();
+    const limiter = new RateLimiter(
+      { minIntervalMs: 1000, jitterRatio: 0, requestsPerMinute: 0 },
+      undefined,
+      clock,
+    );
+
+    await limiter.acquire('page-1');
+    await limiter.acquire('page-1');
+    await limiter.acquire('page-2');
+
+    expect(clock.sleeps).toEqual([1000]);
+  });
+
+  it('should keep jittered intervals within bounds', async () => {
+    const clock = createFakeClock();
+    const limiter = new RateLimiter(
+      { minIntervalMs: 1000, jitterRatio: 0.3, requestsPerMinute: 0 },
+      undefined,
+      clock,
+    );
+
+    for (let i = 0; i < 20; i++) {
+      await limiter.acquire();
+    }
+
+    for (const ms of clock.sleeps) {
+      expect(ms).toBeGreaterThanOrEqual(700);
+      expect(ms).toBeLessThanOrEqual(1300);
+    }
+  });
+
+  it('should enforce the global requests-per-minute budget across workers', async () => {
+    const clock = createFakeClock();
+    const limiter = new RateLimiter(
+      { minIntervalMs: 0, jitterRatio: 0, requestsPerMinute: 2 },
+      undefined,
+      clock,
+    );
+
+    await limiter.acquire('page-1');
+    await limiter.acquire('page-2');
+    await limiter.acquire('page-3');
+
+    expect(clock.sleeps).toEqual([60000]);
+  });
+
+  it('should slow down on failures and recover on healthy responses', () => {
+    const limiter = new RateLimiter(
+      { minIntervalMs: 1000, jitterRatio: 0, requestsPerMinute: 0 },
+      undefined,
+      createFakeClock(),
+    );
+
+    limiter.recordFailure();
+    limiter.recordFailure();
+    expect(limiter.multiplier).toBeGreaterThan(1);
+
+    for (let i = 0; i < RATE_LIMIT.windowSize * 2; i++) {
+      limiter.recordSuccess(100);
+    }
+    expect(limiter.multiplier).toBe(1);
+  });
+
+  it('should slow down when responses are slow', () => {
+    const limiter = new RateLimiter(
+      { minIntervalMs: 1000, jitterRatio: 0, requestsPerMinute: 0 },
+      undefined,
+      createFakeClock(),
+    );
+
+    limiter.recordSuccess(RATE_LIMIT.slowResponseMs * 2);
+
+    expect(limiter.multiplier).toBeGreaterThan(1);
+  });
+
+  it('should cap the slowdown', () => {
+    const limiter = new RateLimiter(
+      { minIntervalMs: 1000, jitterRatio: 0, requestsPerMinute: 0 },
+      undefined,
+      createFakeClock(),
+    );
+
+    for (let i = 0; i < 50; i++) {
+      limiter.recordFailure();
+    }
+
+    expect(limiter.multiplier).toBe(RATE_LIMIT.maxSlowdown);
+  });
+
+  it('should hold navigations while paused', async () => {
+    const clock = createFakeClock();
+    const limiter = new RateLimiter(
+      { minIntervalMs: 0, jitterRatio: 0, requestsPerMinute: 0 },
+      undefined,
+      clock,
+    );
+
+    limiter.pause(2500);
+    await limiter.acquire();
+
+    expect(clock.now()).toBe(2500);
+  });
+
+  it('should not wait after resume', async () => {
+    const clock = createFakeClock();
+    const limiter = new RateLimiter(
+      { minIntervalMs: 0, jitterRatio: 0, requestsPerMinute: 0 },
+      undefined,
+      clock,
+    );
+
+    limiter.pause(60000);
+    limiter.resume();
+    await limiter.acquire();
+
+    expect(clock.sleeps).toEqual([]);
+  });
+});
@@ -89,6 +89,79 @@ describe('ScraperRepository', () => {
       expect(result.orgIds).toEqual(['999', '888']);
     });
 
+    it('should read city from list file metadata', async () => {
+      const listPath = `${testDataDir}/test-list-city.json`;
+      await mkdir(testDataDir, { recursive: true });
+
+      const listData = {
+        meta: { query: 'кальян', city: 'spb' },
+        data: [{ orgId: '123', name: 'Org 1' }],
+      };
+
+      await writeFile(listPath, JSON.stringify(listData, null, 2));
+
+      const result = await repository.readListFile(listPath);
+
+      expect(result.city).toBe('spb');
+    });
+
+    it('should read domain and language from list file metadata', async () => {
+      const listPath = `${testDataDir}/test-list-domain.json`;
+      await mkdir(testDataDir, { recursive: true });
+
+      const listData = {
+        meta: { query: 'кафе', domain: '2gis.kz', city: 'astana', language: 'kk' },
+        data: [{ orgId: '123', name: 'Org 1' }],
+      };
+
+      await writeFile(listPath, JSON.stringify(listData, null, 2));
+
+      const result = await repository.readListFile(listPath);
+
+      expect(result).toMatchObject({ domain: '2gis.kz', city: 'astana', language: 'kk' });
+    });
+
+    it('should leave city undefined for legacy list files', async () => {
+      const listPath = `${testDataDir}/test-list-legacy.json`;
+      await mkdir(testDataDir, { recursive: true });
+
+      await writeFile(listPath, JSON.stringify({ data: [{ orgId: '123' }] }, null, 2));
+
+      const result = await repository.readListFile(listPath);
+
+      expect(result.city).toBeUndefined();
+    });
+
+    it('should read reported total from search metadata', async () => {
+      const listPath = `${testDataDir}/test-list-search.json`;
+      await mkdir(testDataDir, { recursive: true });
+
+      const listData = {
+        meta: { query: 'кафе', search: { reportedTotal: 1234, pagesVisited: 5 } },
+        data: [{ orgId: '123', name: 'Org 1' }],
+      };
+
+      await writeFile(listPath, JSON.stringify(listData, null, 2));
+
+      const result = await repository.readListFile(listPath);
+
+      expect(result.reportedTotal).toBe(1234);
+      expect(result.totalResults).toBe(1);
+    });
+
+    it('should read search filters from search metadata', async () => {
+      const listPath = `${testDataDir}/test-list-filters.json`;
+      await mkdir(testDataDir, { recursive: true });
+
+      const filters = { openNow: true, minRating: 4.5, sort: 'rating' };
+      await writeFile(
+        listPath,
+        JSON.stringify({ meta: { query: 'кафе', search: { filters } }, data: [{ orgId: '1' }] }),
+      );
+
+      expect((await repository.readListFile(listPath)).searchFilters).toEqual(filters);
+    });
+
     it('should throw error for invalid list file format', async () => {
       const listPath = `${testDataDir}/test-invalid.json`;
       await mkdir(testDataDir, { recursive: true });
@@ -99,6 +172,73 @@ describe('ScraperRepository', () => {
     });
   });
 
+  describe('collectRubrics', () => {
+    it('should collect rubrics from list and organization files', async () => {
+      await mkdir(`${testDataDir}/list`, { recursive: true });
+      await mkdir(`${testDataDir}/organizations`, { recursive: true });
+      await writeFile(
+        `${testDataDir}/list/list-cafe.json`,
+        JSON.stringify({
+          data: [{ rubrics: [{ id: '161', name: 'Кафе' }] }, { rubrics: ['Бары'] }],
+        }),
+      );
+      await writeFile(
+        `${testDataDir}/organizations/123-2026-01-01T00-00-00-000Z.json`,
+        JSON.stringify({ data: { rubrics: [{ id: '159', name: 'Бары' }] } }),
+      );
+      await writeFile(`${testDataDir}/organizations/broken.json`, '{');
+
+      const rubrics = await repository.collectRubrics([
+        `${testDataDir}/list`,
+        `${testDataDir}/organizations`,
+        `${testDataDir}/missing`,
+      ]);
+
+      expect(rubrics).toEqual([{ id: '161', name: 'Кафе' }, 'Бары', { id: '159', name: 'Бары' }]);
+    });
+  });
+
+  describe('collectReviewAuthorIds', () => {
+    it('should count authors and skip unreadable review files', async () => {
+      await mkdir(`${testDataDir}/reviews`, { recursive: true });
+      await writeFile(
+        `${testDataDir}/reviews/reviews-a.json`,
+        JSON.stringify({ data: [{ authorId: 'u1' }, { authorId: 'u2' }, { authorId: 'u2' }] }),
+      );
+      await writeFile(`${testDataDir}/reviews/reviews-b.json`, '{"data": [');
+
+      expect(await repository.collectReviewAuthorIds(`${testDataDir}/reviews`)).toEqual([
+        'u2',
+        'u1',
+      ]);
+    });
+  });
+
+  describe('loadKnownReviews', () => {
+    it('should key files without firmId by the firm ID in their raw file', async () => {
+      const parsedDir = `${testDataDir}/parsed`;
+      const rawDir = `${testDataDir}/raw`;
+      await mkdir(parsedDir, { recursive: true });
+      await mkdir(rawDir, { recursive: true });
+      const review = { id: 'r1', text: 'Отлично', rating: 5, dateCreated: '2025-11-02' };
+      // Older file: named after the chain org ID, no firmId recorded
+      const oldFile = '70000001000000001-2025-01-01T00-00-00-000Z.json';
+      await writeFile(`${parsedDir}/${oldFile}`, JSON.stringify({ data: { reviews: [review] } }));
+      await writeFile(
+        `${rawDir}/${oldFile}`,
+        JSON.stringify({ data: { url: 'https://2gis.ru/moscow/firm/70000001044609041' } }),
+      );
+      await writeFile(
+        `${parsedDir}/70000001000000001-2026-01-01T00-00-00-000Z.json`,
+        JSON.stringify({ data: { firmId: '70000001044609042', reviews: [review] } }),
+      );
+
+      const known = await repository.loadKnownReviews(parsedDir, rawDir);
+
+      expect([...known.keys()]).toEqual(['70000001044609041', '70000001044609042']);
+    });
+  });
+
   describe('createMetadata', () => {
     it('should create metadata with all required fields', () => {
       // biome-ignore lint/suspicious/noExplicitAny: Testing private method
@@ -115,6 +255,17 @@ describe('ScraperRepository', () => {
       expect(metadata.fetchedAt).toBeDefined();
       expect(typeof metadata.fetchedAt).toBe('string');
     });
+
+    it('should include location when provided', () => {
+      // biome-ignore lint/suspicious/noExplicitAny: Testing private method
+      const metadata = (repository as any).createMetadata('test-query', 1234, 10, {
+        domain: '2gis.kz',
+        city: 'almaty',
+        language: 'kk',
+      });
+
+      expect(metadata).toMatchObject({ domain: '2gis.kz', city: 'almaty', language: 'kk' });
+    });
   });
 
   describe('data persistence', () => {
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+  isReviewApiUrl,
+  mapReview,
+  mapReviewPhoto,
+  parseReviewApiResponse,
+} from '../src/scraper/review-api.js';
+
+const rawReview = {
+  id: '123456',
+  text: 'Отличное место',
+  rating: 5,
+  date_created: '2025-11-02T12:30:00.000000+07:00',
+  date_edited: '2025-11-03T09:00:00.000000+07:00',
+  user: { id: 'u-1', name: 'Анна' },
+  comments_count: 1,
+  likes_count: 4,
+  dislikes_count: 0,
+  provider: '2gis',
+};
+
+describe('review-api', () => {
+  describe('isReviewApiUrl', () => {
+    it('should match branch reviews endpoints', () => {
+      expect(
+        isReviewApiUrl(
+          'https://public-api.reviews.2gis.com/2.0/branches/70000001044609041/reviews?limit=50&key=abc',
+        ),
+      ).toBe(true);
+    });
+
+    it('should ignore other requests', () => {
+      expect(isReviewApiUrl('https://catalog.api.2gis.ru/3.0/items/byid?id=1')).toBe(false);
+      expect(isReviewApiUrl('https://2gis.ru/moscow/firm/1/tab/reviews')).toBe(false);
+    });
+  });
+
+  describe('mapReview', () => {
+    it('should map API fields to a Review with a real ID', () => {
+      expect(mapReview(rawReview)).toEqual({
+        id: '123456',
+        text: 'Отличное место',
+        rating: 5,
+        dateCreated: '2025-11-02T12:30:00.000000+07:00',
+        dateEdited: '2025-11-03T09:00:00.000000+07:00',
+        author: 'Анна',
+        authorId: 'u-1',
+        commentsCount: 1,
+        source: '2gis',
+        likes: 4,
+        dislikes: 0,
+      });
+    });
+
+    it('should map the official answer', () => {
+      const review = mapReview({
+        ...rawReview,
+        official_answer: {
+          id: 'a-1',
+          org_name: 'Кофейня Луна',
+          text: 'Спасибо за отзыв!',
+          date_created: '2025-11-04T08:00:00.000000+07:00',
+        },
+      });
+
+      expect(review.officialAnswer).toEqual({
+        text: 'Спасибо за отзыв!',
+        dateCreated: '2025-11-04T08:00:00.000000+07:00',
+        responder: 'Кофейня Луна',
+      });
+    });
+
+    it('should omit an empty official answer', () => {
+      expect(mapReview({ ...rawReview, official_answer: null })).not.toHaveProperty(
+        'officialAnswer',
+      );
+    });
+
+    it('should use the given ID for initialState entries', () => {
+      expect(mapReview({ ...rawReview, id: undefined }, 'state-id').id).toBe('state-id');
+    });
+  });
+
+  describe('mapReviewPhoto', () => {
+    it('should map URL, preview and dimensions', () => {
+      expect(
+        mapReviewPhoto({
+          id: 77,
+          preview_urls: {
+            url: 'https://i0.photo.2gis.com/main/p/1.jpg',
+            '320x': 'https://i0.photo.2gis.com/main/p/1_320x.jpg',
+          },
+          size: { width: 1280, height: 960 },
+        }),
+      ).toEqual({
+        id: '77',
+        url: 'https://i0.photo.2gis.com/main/p/1.jpg',
+        previewUrl: 'https://i0.photo.2gis.com/main/p/1_320x.jpg',
+        width: 1280,
+        height: 960,
+      });
+    });
+
+    it('should skip photos without a URL', () => {
+      expect(mapReviewPhoto({ id: 1 })).toBeUndefined();
+    });
+
+    it('should attach photos to the review', () => {
+      const review = mapReview({
+        ...rawReview,
+        photos: [{ id: 1, url: 'https://i0.photo.2gis.com/a.jpg' }, { id: 2 }],
+      });
+
+      expect(review.photoCount).toBe(2);
+      expect(review.photos).toEqual([{ id: '1', url: 'https://i0.photo.2gis.com/a.jpg' }]);
+    });
+  });
+
+  describe('parseReviewApiResponse', () => {
+    it('should return reviews, cursor and total', () => {
+      const page = parseReviewApiResponse({
+        meta: {
+          code: 200,
+          total_count: 240,
+          next_link: 'https://public-api.reviews.2gis.com/next',
+        },
+        reviews: [rawReview],
+      });
+
+      expect(page?.reviews.map((r) => r.id)).toEqual(['123456']);
+      expect(page?.nextLink).toBe('https://public-api.reviews.2gis.com/next');
+      expect(page?.total).toBe(240);
+    });
+
+    it('should omit the cursor on the last page', () => {
+      const page = parseReviewApiResponse({ meta: { code: 200, next_link: null }, reviews: [] });
+
+      expect(page).toEqual({ reviews: [] });
+    });
+
+    it('should reject error responses', () => {
+      expect(parseReviewApiResponse({ meta: { code: 403 }, reviews: [] })).toBeNull();
+      expect(parseReviewApiResponse({ meta: { code: 200 } })).toBeNull();
+    });
+  });
+});
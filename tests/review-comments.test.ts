@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildCommentsUrl,
+  mapComment,
+  parseCommentsResponse,
+} from '../src/scraper/review-comments.js';
+
+const reviewsUrl =
+  'https://public-api.reviews.2gis.com/2.0/branches/70000001044609041/reviews?limit=50&fields=meta.providers&key=abc&locale=ru_RU&sort_by=date_edited';
+
+describe('review-comments', () => {
+  describe('buildCommentsUrl', () => {
+    it('should reuse host, version, key and locale of the reviews URL', () => {
+      const url = new URL(buildCommentsUrl(reviewsUrl, '123456'));
+
+      expect(url.origin).toBe('https://public-api.reviews.2gis.com');
+      expect(url.pathname).toBe('/2.0/reviews/123456/comments');
+      expect(url.searchParams.get('key')).toBe('abc');
+      expect(url.searchParams.get('locale')).toBe('ru_RU');
+      expect(url.searchParams.get('limit')).toBe('50');
+      expect(url.searchParams.has('sort_by')).toBe(false);
+    });
+  });
+
+  describe('mapComment', () => {
+    it('should map author, date and text', () => {
+      expect(
+        mapComment({
+          id: 987,
+          text: 'Согласен!',
+          date_created: '2025-11-05T10:00:00+03:00',
+          user: { id: 42, name: 'Иван' },
+        }),
+      ).toEqual({
+        id: '987',
+        text: 'Согласен!',
+        dateCreated: '2025-11-05T10:00:00+03:00',
+        author: 'Иван',
+        authorId: '42',
+      });
+    });
+  });
+
+  describe('parseCommentsResponse', () => {
+    it('should return comments and the next cursor', () => {
+      const page = parseCommentsResponse({
+        meta: { code: 200, next_link: 'https://public-api.reviews.2gis.com/next' },
+        comments: [{ id: '1', text: 'a', date_created: '2025-01-01' }],
+      });
+
+      expect(page?.comments).toHaveLength(1);
+      expect(page?.nextLink).toBe('https://public-api.reviews.2gis.com/next');
+    });
+
+    it('should reject error responses', () => {
+      expect(parseCommentsResponse({ meta: { code: 500 } })).toBeNull();
+    });
+  });
+});
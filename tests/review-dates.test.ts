@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeReviewDate, parseDisplayDate } from '../src/scraper/review-dates.js';
+import type { Review } from '../src/types/index.js';
+
+const now = new Date('2026-03-15T12:00:00Z');
+
+describe('review-dates', () => {
+  describe('parseDisplayDate', () => {
+    it('should parse absolute Russian dates', () => {
+      expect(parseDisplayDate('12 января 2025', 'ru', now)).toEqual({
+        date: '2025-01-12',
+        edited: false,
+      });
+      expect(parseDisplayDate('2 мая 2024', 'ru', now)?.date).toBe('2024-05-02');
+    });
+
+    it('should detect the edited marker', () => {
+      expect(parseDisplayDate('12 января 2025, отредактирован', 'ru', now)).toEqual({
+        date: '2025-01-12',
+        edited: true,
+      });
+    });
+
+    it('should pick the latest past year when the year is omitted', () => {
+      expect(parseDisplayDate('1 марта', 'ru', now)?.date).toBe('2026-03-01');
+      expect(parseDisplayDate('20 декабря', 'ru', now)?.date).toBe('2025-12-20');
+    });
+
+    it('should parse relative Russian dates', () => {
+      expect(parseDisplayDate('сегодня', 'ru', now)?.date).toBe('2026-03-15');
+      expect(parseDisplayDate('вчера', 'ru', now)?.date).toBe('2026-03-14');
+      expect(parseDisplayDate('3 дня назад', 'ru', now)?.date).toBe('2026-03-12');
+      expect(parseDisplayDate('неделю назад', 'ru', now)?.date).toBe('2026-03-08');
+      expect(parseDisplayDate('2 месяца назад', 'ru', now)?.date).toBe('2026-01-15');
+    });
+
+    it('should parse relative Kazakh dates', () => {
+      expect(parseDisplayDate('бүгін', 'kk', now)?.date).toBe('2026-03-15');
+      expect(parseDisplayDate('кеше', 'kk', now)?.date).toBe('2026-03-14');
+      expect(parseDisplayDate('3 күн бұрын', 'kk', now)?.date).toBe('2026-03-12');
+      expect(parseDisplayDate('1 апта бұрын', 'kk', now)?.date).toBe('2026-03-08');
+      expect(parseDisplayDate('2 ай бұрын', 'kk', now)?.date).toBe('2026-01-15');
+      expect(parseDisplayDate('Ай бұрын', 'kk', now)?.date).toBe('2026-02-15');
+      expect(parseDisplayDate('2 жыл бұрын', 'kk', now)?.date).toBe('2024-03-15');
+    });
+
+    it('should parse other supported languages', () => {
+      expect(parseDisplayDate('January 12, 2025, edited', 'en', now)).toEqual({
+        date: '2025-01-12',
+        edited: true,
+      });
+      expect(parseDisplayDate('5 days ago', 'en', now)?.date).toBe('2026-03-10');
+      expect(parseDisplayDate('2025 ж. 12 қаңтар', 'kk', now)?.date).toBe('2025-01-12');
+      expect(parseDisplayDate('١٢ يناير ٢٠٢٥', 'ar', now)?.date).toBe('2025-01-12');
+    });
+
+    it('should return null for unreadable or impossible dates', () => {
+      expect(parseDisplayDate('давно', 'ru', now)).toBeNull();
+      expect(parseDisplayDate('31 февраля 2025', 'ru', now)).toBeNull();
+    });
+  });
+
+  describe('normalizeReviewDate', () => {
+    const review: Review = { id: 'dom_1', text: 'Отлично', rating: 5, dateCreated: '' };
+
+    it('should keep ISO dates as they are', () => {
+      const iso = { ...review, dateCreated: '2025-11-02T12:30:00+07:00' };
+
+      expect(normalizeReviewDate(iso, 'ru', now)).toBe(iso);
+    });
+
+    it('should convert display dates and keep the original text', () => {
+      const normalized = normalizeReviewDate(
+        { ...review, dateCreated: '12 января 2025, отредактирован' },
+        'ru',
+        now,
+      );
+
+      expect(normalized.dateCreated).toBe('2025-01-12');
+      expect(normalized.dateEdited).toBe('2025-01-12');
+      expect(normalized.dateCreatedApproximate).toBe(true);
+      expect(normalized.dateRaw).toBe('12 января 2025, отредактирован');
+      expect(normalized.dateUnparsed).toBeUndefined();
+    });
+
+    it('should leave dateCreated exact for unedited reviews', () => {
+      const normalized = normalizeReviewDate({ ...review, dateCreated: '3 дня назад' }, 'ru', now);
+
+      expect(normalized.dateCreated).toBe('2026-03-12');
+      expect(normalized.dateCreatedApproximate).toBeUndefined();
+    });
+
+    it('should flag dates that could not be parsed', () => {
+      const normalized = normalizeReviewDate({ ...review, dateCreated: 'давно' }, 'ru', now);
+
+      expect(normalized.dateCreated).toBe('давно');
+      expect(normalized.dateRaw).toBe('давно');
+      expect(normalized.dateUnparsed).toBe(true);
+    });
+  });
+});
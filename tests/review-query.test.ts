@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidReviewQueryError } from '../src/errors.js';
+import { mapReview } from '../src/scraper/review-api.js';
+import {
+  applyReviewQuery,
+  hasReviewQuery,
+  matchesReviewQuery,
+  parseReviewRatings,
+  parseReviewSort,
+  sortReviews,
+} from '../src/scraper/review-query.js';
+import type { Review } from '../src/types/index.js';
+
+const apiUrl =
+  'https://public-api.reviews.2gis.com/2.0/branches/70000001/reviews?limit=50&offset_date=2025-01-01&key=abc&locale=ru_RU';
+
+const reviews: Review[] = [
+  { id: '1', text: 'Отлично', rating: 5, dateCreated: '2025-09-01T10:00:00+03:00', likes: 1 },
+  { id: '2', text: 'Плохо', rating: 1, dateCreated: '2025-10-01T10:00:00+03:00', likes: 7 },
+  {
+    id: '3',
+    text: 'Нормально',
+    rating: 3,
+    dateCreated: '2025-08-01T10:00:00+03:00',
+    dateEdited: '2025-11-01T10:00:00+03:00',
+    photoCount: 2,
+  },
+];
+
+describe('review-query', () => {
+  describe('parseReviewSort', () => {
+    it('should accept known sort options', () => {
+      expect(parseReviewSort('rating-asc')).toBe('rating-asc');
+    });
+
+    it('should reject unknown sort options', () => {
+      expect(() => parseReviewSort('random')).toThrow(InvalidReviewQueryError);
+    });
+  });
+
+  describe('parseReviewRatings', () => {
+    it('should parse, dedupe and order star ratings', () => {
+      expect(parseReviewRatings('2, 1,2')).toEqual([1, 2]);
+    });
+
+    it('should reject ratings outside 1-5', () => {
+      expect(() => parseReviewRatings('0,6')).toThrow(InvalidReviewQueryError);
+      expect(() => parseReviewRatings('')).toThrow(InvalidReviewQueryError);
+    });
+  });
+
+  describe('hasReviewQuery', () => {
+    it('should ignore empty queries', () => {
+      expect(hasReviewQuery(undefined)).toBe(false);
+      expect(hasReviewQuery({ ratings: [] })).toBe(false);
+      expect(hasReviewQuery({ withPhotos: true })).toBe(true);
+    });
+  });
+
+  describe('applyReviewQuery', () => {
+    it('should set sort and filters and drop the cursor offset', () => {
+      const params = new URL(
+        applyReviewQuery(apiUrl, { sort: 'newest', ratings: [1, 2], withPhotos: true }),
+      ).searchParams;
+
+      expect(params.get('sort_by')).toBe('date_edited');
+      expect(params.get('rating')).toBe('1,2');
+      expect(params.get('has_photos')).toBe('true');
+      expect(params.has('offset_date')).toBe(false);
+      expect(params.get('key')).toBe('abc');
+      expect(params.get('limit')).toBe('50');
+    });
+
+    it('should keep the default ordering without a sort', () => {
+      const params = new URL(applyReviewQuery(apiUrl, { ratings: [1] })).searchParams;
+
+      expect(params.has('sort_by')).toBe(false);
+    });
+  });
+
+  describe('matchesReviewQuery', () => {
+    it('should filter by rating and photos', () => {
+      const matching = (query: Parameters<typeof matchesReviewQuery>[1]) =>
+        reviews.filter((r) => matchesReviewQuery(r, query)).map((r) => r.id);
+
+      expect(matching(undefined)).toEqual(['1', '2', '3']);
+      expect(matching({ ratings: [1, 3] })).toEqual(['2', '3']);
+      expect(matching({ withPhotos: true })).toEqual(['3']);
+    });
+
+    it('should read photo counts from raw reviews', () => {
+      expect(mapReview({ id: 1, photos: [{}, {}] }).photoCount).toBe(2);
+      expect(mapReview({ id: 1, photos: [] }).photoCount).toBeUndefined();
+    });
+  });
+
+  describe('sortReviews', () => {
+    it('should order locally by each sort option', () => {
+      const ids = (sort: Parameters<typeof sortReviews>[1]) =>
+        sortReviews(reviews, sort).map((r) => r.id);
+
+      expect(ids('newest')).toEqual(['3', '2', '1']);
+      expect(ids('useful')).toEqual(['2', '1', '3']);
+      expect(ids('rating-asc')).toEqual(['2', '3', '1']);
+      expect(ids('rating-desc')).toEqual(['1', '3', '2']);
+      expect(ids(undefined)).toEqual(['1', '2', '3']);
+    });
+  });
+});
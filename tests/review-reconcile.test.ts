@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  mergeReviewVersions,
+  ReviewCollection,
+  reviewFingerprint,
+} from '../src/scraper/review-reconcile.js';
+import type { Review } from '../src/types/index.js';
+
+const stateReview: Review = {
+  id: '123456',
+  text: 'Отличное место, вкусный кофе!',
+  rating: 5,
+  dateCreated: '2025-11-02T12:30:00.000000+07:00',
+  author: 'Анна',
+  authorId: 'u-1',
+  likes: 4,
+};
+
+const domReview: Review = {
+  id: 'dom_Анна_2 ноября 2025_Отличное место, вк',
+  text: 'Отличное  место,\nвкусный кофе',
+  rating: 5,
+  dateCreated: '2025-11-02',
+  author: 'Анна',
+};
+
+describe('review-reconcile', () => {
+  describe('reviewFingerprint', () => {
+    it('should ignore case, punctuation, whitespace and time of day', () => {
+      expect(reviewFingerprint(domReview)).toBe(reviewFingerprint(stateReview));
+    });
+
+    it('should differ for different authors or ratings', () => {
+      expect(reviewFingerprint({ ...domReview, author: 'Иван' })).not.toBe(
+        reviewFingerprint(stateReview),
+      );
+      expect(reviewFingerprint({ ...domReview, rating: 4 })).not.toBe(
+        reviewFingerprint(stateReview),
+      );
+    });
+  });
+
+  describe('mergeReviewVersions', () => {
+    it('should keep the richer version and fill its gaps', () => {
+      const merged = mergeReviewVersions({ ...domReview, commentsCount: 2 }, stateReview);
+
+      expect(merged.id).toBe('123456');
+      expect(merged.text).toBe(stateReview.text);
+      expect(merged.commentsCount).toBe(2);
+    });
+  });
+
+  describe('ReviewCollection', () => {
+    it('should merge the same review from different sources', () => {
+      const reviews = new ReviewCollection();
+
+      expect(reviews.add([domReview])).toBe(1);
+      expect(reviews.add([stateReview])).toBe(0);
+
+      expect(reviews.size).toBe(1);
+      expect(reviews.mergedCount).toBe(1);
+      expect(reviews.toArray()[0]?.id).toBe('123456');
+    });
+
+    it('should not count repeated IDs as merged duplicates', () => {
+      const reviews = new ReviewCollection();
+      reviews.add([stateReview, stateReview]);
+
+      expect(reviews.size).toBe(1);
+      expect(reviews.mergedCount).toBe(0);
+    });
+
+    it('should keep distinct real IDs that share a fingerprint', () => {
+      const reviews = new ReviewCollection();
+      const ratingOnly: Review = {
+        id: '111',
+        text: '',
+        rating: 5,
+        dateCreated: '2025-11-02',
+        author: 'Анна',
+      };
+
+      expect(reviews.add([ratingOnly, { ...ratingOnly, id: '222' }])).toBe(2);
+      expect(reviews.toArray().map((r) => r.id)).toEqual(['111', '222']);
+      expect(reviews.mergedCount).toBe(0);
+    });
+
+    it('should stop adding new reviews at maxReviews but still merge', () => {
+      const reviews = new ReviewCollection();
+      const other: Review = { ...stateReview, id: '2', text: 'Другой отзыв' };
+
+      expect(reviews.add([stateReview, other], 1)).toBe(1);
+      reviews.add([domReview], 1);
+
+      expect(reviews.toArray().map((r) => r.id)).toEqual(['123456']);
+      expect(reviews.mergedCount).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { KnownReviews } from '../src/scraper/review-sync.js';
+import type { Review } from '../src/types/index.js';
+
+const saved: Review[] = [
+  {
+    id: '2',
+    text: 'Хорошо, но шумно',
+    rating: 4,
+    dateCreated: '2025-10-05T10:00:00+03:00',
+    author: 'Борис',
+    comments: [{ id: 'c1', text: 'Согласен', dateCreated: '2025-10-06T10:00:00+03:00' }],
+  },
+  {
+    id: '1',
+    text: 'Отличное место',
+    rating: 5,
+    dateCreated: '2025-09-01T10:00:00+03:00',
+    author: 'Анна',
+  },
+];
+
+describe('review-sync', () => {
+  describe('KnownReviews', () => {
+    it('should report the newest saved review', () => {
+      const known = new KnownReviews(saved);
+
+      expect(known.size).toBe(2);
+      expect(known.newest).toBe('2025-10-05T10:00:00+03:00 (2)');
+      expect(new KnownReviews([]).newest).toBeUndefined();
+    });
+
+    it('should treat only saved versions as unchanged', () => {
+      const known = new KnownReviews(saved);
+
+      expect(known.isUnchanged({ ...(saved[1] as Review) })).toBe(true);
+      expect(
+        known.isUnchanged({ ...(saved[1] as Review), dateEdited: '2025-11-01T10:00:00+03:00' }),
+      ).toBe(false);
+      expect(known.isUnchanged({ ...(saved[1] as Review), id: '3', text: 'Новый' })).toBe(false);
+    });
+
+    it('should count reviews with unknown IDs as new, even with a matching fingerprint', () => {
+      const known = new KnownReviews(saved);
+      const twin: Review = { ...(saved[1] as Review), id: '3' };
+
+      expect(known.isUnchanged(twin)).toBe(false);
+      const { reviews, summary } = known.merge([twin]);
+      expect(summary).toMatchObject({ added: 1, edited: 0 });
+      expect(reviews.map((r) => r.id)).toEqual(['3', '2', '1']);
+    });
+
+    it('should prepend new reviews and replace edited ones', () => {
+      const known = new KnownReviews(saved);
+      const added: Review = {
+        id: '3',
+        text: 'Новый отзыв',
+        rating: 2,
+        dateCreated: '2025-11-10T10:00:00+03:00',
+      };
+      const edited: Review = {
+        id: '2',
+        text: 'Хорошо, стало тише',
+        rating: 4,
+        dateCreated: '2025-10-05T10:00:00+03:00',
+        dateEdited: '2025-11-09T10:00:00+03:00',
+        author: 'Борис',
+      };
+
+      const result = known.merge([added, edited, saved[1] as Review]);
+
+      expect(result.reviews.map((r) => r.id)).toEqual(['3', '2', '1']);
+      expect(result.reviews[1]?.text).toBe('Хорошо, стало тише');
+      expect(result.reviews[1]?.comments).toHaveLength(1);
+      expect(result.summary).toEqual({ known: 2, added: 1, edited: 1, changedIds: ['3', '2'] });
+    });
+
+    it('should count a new official answer as an edit', () => {
+      const known = new KnownReviews(saved);
+
+      const result = known.merge([
+        { ...(saved[1] as Review), officialAnswer: { text: 'Спасибо!' } },
+      ]);
+
+      expect(result.summary.edited).toBe(1);
+      expect(result.reviews[1]?.officialAnswer?.text).toBe('Спасибо!');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { buildRubricTree, findRubricByName, mapRubric } from '../src/scraper/rubrics.js';
+import type { Rubric } from '../src/types/index.js';
+
+const cafe: Rubric = { id: '161', name: 'Кафе', alias: 'cafe', primary: true, parentId: '1' };
+const bar: Rubric = { id: '159', name: 'Бары', alias: 'bars', primary: false, parentId: '1' };
+
+describe('rubrics', () => {
+  describe('mapRubric', () => {
+    it('should keep ID, alias, primary flag and parent', () => {
+      expect(
+        mapRubric({
+          id: 161,
+          name: 'Кафе',
+          alias: 'cafe',
+          kind: 'primary',
+          parent_id: 1,
+          short_id: 7,
+        }),
+      ).toEqual(cafe);
+      expect(mapRubric({ id: '159', name: 'Бары', kind: 'additional' })?.primary).toBe(false);
+    });
+
+    it('should accept bare names from older files', () => {
+      expect(mapRubric('Кафе')).toEqual({ name: 'Кафе' });
+      expect(mapRubric('')).toBeUndefined();
+      expect(mapRubric({ id: '1' })).toBeUndefined();
+    });
+  });
+
+  describe('findRubricByName', () => {
+    it('should match names and aliases case-insensitively', () => {
+      expect(findRubricByName([{ name: 'Кафе' }, cafe, bar], 'кафе')).toBe(cafe);
+      expect(findRubricByName([cafe, bar], 'BARS')).toBe(bar);
+      expect(findRubricByName([cafe], 'Рестораны')).toBeUndefined();
+    });
+  });
+
+  describe('buildRubricTree', () => {
+    it('should nest rubrics under their groups, busiest first', () => {
+      const tree = buildRubricTree([cafe, bar, bar, { name: 'Без ID' }, { id: '2', name: 'Авто' }]);
+
+      expect(tree).toEqual([
+        { id: '2', name: 'Авто', firmCount: 1, children: [] },
+        {
+          id: '1',
+          firmCount: 0,
+          children: [
+            { id: '159', name: 'Бары', alias: 'bars', firmCount: 2, children: [] },
+            { id: '161', name: 'Кафе', alias: 'cafe', firmCount: 1, children: [] },
+          ],
+        },
+      ]);
+    });
+
+    it('should keep rubrics whose parents form a cycle', () => {
+      const tree = buildRubricTree([
+        { id: 'a', name: 'A', parentId: 'b' },
+        { id: 'b', name: 'B', parentId: 'c' },
+        { id: 'b', name: 'B', parentId: 'c' },
+        { id: 'c', name: 'C', parentId: 'a' },
+      ]);
+
+      expect(tree).toEqual([
+        {
+          id: 'a',
+          name: 'A',
+          firmCount: 1,
+          children: [
+            {
+              id: 'c',
+              name: 'C',
+              firmCount: 1,
+              children: [{ id: 'b', name: 'B', firmCount: 2, children: [] }],
+            },
+          ],
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { buildListOrganization, parseSearchCard } from '../src/scraper/search-card.js';
+import type { SearchResultItem } from '../src/types/index.js';
+import { Logger } from '../src/utils.js';
+
+const lines = [
+  'Кофемания',
+  'Реклама',
+  'Кофейня',
+  '4.8',
+  '1 234 оценки',
+  'Большая Никитская, 13/6 ст1',
+  'Открыто до 23:00',
+  '1,2 км',
+];
+
+function card(overrides: Partial<SearchResultItem> = {}): SearchResultItem {
+  return {
+    firmId: '4504127908731234',
+    url: '/moscow/firm/4504127908731234',
+    name: 'Кофемания',
+    container: '',
+    lines,
+    ...overrides,
+  };
+}
+
+describe('search-card', () => {
+  describe('parseSearchCard', () => {
+    it('should read rating, review count, address, rubric, distance and ad badge', () => {
+      expect(parseSearchCard(lines, 'Кофемания')).toEqual({
+        advertiser: true,
+        primaryRubric: 'Кофейня',
+        rating: 4.8,
+        reviewCount: 1234,
+        address: 'Большая Никитская, 13/6 ст1',
+        distanceMeters: 1200,
+      });
+    });
+
+    it('should read English cards', () => {
+      expect(
+        parseSearchCard(
+          ['Ad', 'Coffee shop', '4,5', '87 reviews', 'Sheikh Zayed Road, 1', '350 m'],
+          'Cafe',
+          'en',
+        ),
+      ).toEqual({
+        advertiser: true,
+        primaryRubric: 'Coffee shop',
+        rating: 4.5,
+        reviewCount: 87,
+        address: 'Sheikh Zayed Road, 1',
+        distanceMeters: 350,
+      });
+    });
+
+    it('should return no fields for an empty card', () => {
+      expect(parseSearchCard([], 'Кофемания')).toEqual({});
+    });
+  });
+
+  describe('buildListOrganization', () => {
+    it('should build a record from the card when no catalog item was found', () => {
+      expect(buildListOrganization(card(), new Logger())).toEqual({
+        name: 'Кофемания',
+        address: 'Большая Никитская, 13/6 ст1',
+        rating: 4.8,
+        reviewCount: 1234,
+        rubrics: [{ name: 'Кофейня', primary: true }],
+        orgId: '4504127908731234',
+        distanceMeters: 1200,
+        advertiser: true,
+      });
+    });
+
+    it('should prefer the catalog item and keep card-only fields', () => {
+      const organization = buildListOrganization(
+        card({
+          lines: ['Кофемания', '800 м'],
+          data: {
+            id: '4504127908731234_abc',
+            name: 'Кофемания',
+            address_name: 'Большая Никитская, 13/6 ст1',
+            rubrics: [{ id: '161', name: 'Кофейня', kind: 'primary' }],
+            ads: { text: 'Лучший кофе' },
+          },
+        }),
+        new Logger(),
+      );
+
+      expect(organization.address).toBe('Большая Никитская, 13/6 ст1');
+      expect(organization.rubrics).toEqual([{ id: '161', name: 'Кофейня', primary: true }]);
+      expect(organization.distanceMeters).toBe(800);
+      expect(organization.advertiser).toBe(true);
+      expect(organization.orgId).toBe('4504127908731234');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidSearchFilterError } from '../src/errors.js';
+import {
+  hasSearchFilters,
+  parseMinRating,
+  parsePoint,
+  parseSearchSort,
+  searchFilterTokens,
+} from '../src/scraper/search-filters.js';
+
+describe('search-filters', () => {
+  describe('parseSearchSort', () => {
+    it('should accept known sort orders', () => {
+      expect(parseSearchSort('rating')).toBe('rating');
+      expect(parseSearchSort('distance')).toBe('distance');
+    });
+
+    it('should reject unknown sort orders', () => {
+      expect(() => parseSearchSort('price')).toThrow(InvalidSearchFilterError);
+    });
+  });
+
+  describe('parseMinRating', () => {
+    it('should accept ratings from 1 to 5', () => {
+      expect(parseMinRating('4.5')).toBe(4.5);
+    });
+
+    it('should reject out-of-range and empty values', () => {
+      expect(() => parseMinRating('6')).toThrow(InvalidSearchFilterError);
+      expect(() => parseMinRating('abc')).toThrow(InvalidSearchFilterError);
+      expect(() => parseMinRating(' ')).toThrow(InvalidSearchFilterError);
+    });
+  });
+
+  describe('parsePoint', () => {
+    it('should parse lon,lat', () => {
+      expect(parsePoint('37.6173, 55.7558')).toEqual({ lon: 37.6173, lat: 55.7558 });
+    });
+
+    it('should reject malformed points', () => {
+      expect(() => parsePoint('37.6')).toThrow(InvalidSearchFilterError);
+      expect(() => parsePoint('200,10')).toThrow(InvalidSearchFilterError);
+    });
+  });
+
+  describe('hasSearchFilters', () => {
+    it('should ignore the default relevance sort', () => {
+      expect(hasSearchFilters(undefined)).toBe(false);
+      expect(hasSearchFilters({ sort: 'relevance' })).toBe(false);
+      expect(hasSearchFilters({ attributes: [] })).toBe(false);
+      expect(hasSearchFilters({ open24h: true })).toBe(true);
+    });
+  });
+
+  describe('searchFilterTokens', () => {
+    it('should list tokens in a stable order', () => {
+      expect(
+        searchFilterTokens({
+          attributes: ['wifi', 'parking', 'wifi'],
+          withPhotos: true,
+          open24h: true,
+          sort: 'rating',
+        }),
+      ).toEqual(['sort=rating', 'open_24x7', 'has_photos', 'parking', 'wifi']);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LIMITS } from '../src/config.js';
+import { attachApiData, mergeSearchItems, searchPageCount } from '../src/scraper/search.js';
+import type { SearchResultItem } from '../src/types/index.js';
+
+function card(firmId: string): SearchResultItem {
+  return { firmId, url: `/moscow/firm/${firmId}`, name: `Firm ${firmId}`, container: '' };
+}
+
+describe('search', () => {
+  describe('mergeSearchItems', () => {
+    it('should add only unseen firm IDs', () => {
+      const items = [card('1')];
+      const seenIds = new Set(['1']);
+
+      const added = mergeSearchItems(items, seenIds, [card('1'), card('2'), card('2')], 10);
+
+      expect(added).toBe(1);
+      expect(items.map((i) => i.firmId)).toEqual(['1', '2']);
+    });
+
+    it('should stop at maxRecords', () => {
+      const items: SearchResultItem[] = [];
+
+      const added = mergeSearchItems(items, new Set(), [card('1'), card('2'), card('3')], 2);
+
+      expect(added).toBe(2);
+      expect(items).toHaveLength(2);
+    });
+
+    it('should report zero when a page has no new results', () => {
+      const items = [card('1')];
+
+      expect(mergeSearchItems(items, new Set(['1']), [card('1')], 10)).toBe(0);
+    });
+  });
+
+  describe('attachApiData', () => {
+    it('should attach captured API items to matching cards only', () => {
+      const apiItem = { id: '2_abc', name: 'Firm 2', address_name: 'Tverskaya 1' };
+      const found = attachApiData([card('1'), card('2')], (firmId) =>
+        firmId === '2' ? { item: apiItem } : undefined,
+      );
+
+      expect(found[0]?.data).toBeUndefined();
+      expect(found[1]?.data).toBe(apiItem);
+    });
+  });
+
+  describe('searchPageCount', () => {
+    it('should cover the reported total with full pages', () => {
+      expect(searchPageCount(24, 12)).toBe(2);
+      expect(searchPageCount(25, 12)).toBe(3);
+      expect(searchPageCount(0, 12)).toBe(1);
+    });
+
+    it('should fall back to the page limit without a reported total', () => {
+      expect(searchPageCount(undefined)).toBe(DEFAULT_LIMITS.maxSearchPages);
+      expect(searchPageCount(1_000_000, 12)).toBe(DEFAULT_LIMITS.maxSearchPages);
+    });
+  });
+});
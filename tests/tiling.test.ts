@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LIMITS } from '../src/config.js';
+import { InvalidAreaError } from '../src/errors.js';
+import {
+  isTileCapped,
+  parseBoundingBox,
+  parsePolygon,
+  pointInPolygon,
+  polygonBoundingBox,
+  splitBoundingBox,
+  tileIntersectsPolygon,
+  tileViewport,
+} from '../src/scraper/tiling.js';
+
+const square = [
+  { lon: 0, lat: 0 },
+  { lon: 10, lat: 0 },
+  { lon: 10, lat: 10 },
+  { lon: 0, lat: 10 },
+];
+
+describe('tiling', () => {
+  describe('parseBoundingBox', () => {
+    it('should parse west,south,east,north', () => {
+      expect(parseBoundingBox('37.35,55.55,37.85,55.92')).toEqual({
+        west: 37.35,
+        south: 55.55,
+        east: 37.85,
+        north: 55.92,
+      });
+    });
+
+    it('should reject malformed or inverted boxes', () => {
+      expect(() => parseBoundingBox('1,2,3')).toThrow(InvalidAreaError);
+      expect(() => parseBoundingBox('a,b,c,d')).toThrow(InvalidAreaError);
+      expect(() => parseBoundingBox('10,0,0,10')).toThrow(InvalidAreaError);
+    });
+  });
+
+  describe('parsePolygon', () => {
+    it('should parse lon,lat pairs separated by semicolons', () => {
+      expect(parsePolygon('0,0;10,0;10,10;0,10')).toEqual(square);
+    });
+
+    it('should require at least three points', () => {
+      expect(() => parsePolygon('0,0;1,1')).toThrow(InvalidAreaError);
+    });
+  });
+
+  describe('polygonBoundingBox', () => {
+    it('should compute the enclosing box', () => {
+      expect(polygonBoundingBox(square)).toEqual({ west: 0, south: 0, east: 10, north: 10 });
+    });
+  });
+
+  describe('pointInPolygon', () => {
+    it('should detect inside and outside points', () => {
+      expect(pointInPolygon({ lon: 5, lat: 5 }, square)).toBe(true);
+      expect(pointInPolygon({ lon: 15, lat: 5 }, square)).toBe(false);
+    });
+  });
+
+  describe('tileIntersectsPolygon', () => {
+    it('should keep tiles overlapping the polygon and drop distant ones', () => {
+      expect(tileIntersectsPolygon({ west: 8, south: 8, east: 12, north: 12 }, square)).toBe(true);
+      expect(tileIntersectsPolygon({ west: 20, south: 20, east: 30, north: 30 }, square)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('splitBoundingBox', () => {
+    it('should split into a grid covering the box', () => {
+      const tiles = splitBoundingBox({ west: 0, south: 0, east: 4, north: 2 }, 2);
+
+      expect(tiles).toHaveLength(4);
+      expect(tiles[0]).toEqual({ west: 0, south: 0, east: 2, north: 1 });
+      expect(tiles[3]).toEqual({ west: 2, south: 1, east: 4, north: 2 });
+    });
+  });
+
+  describe('tileViewport', () => {
+    it('should center on the tile and zoom in for smaller tiles', () => {
+      const large = tileViewport({ west: 37.35, south: 55.55, east: 37.85, north: 55.92 });
+      const small = tileViewport({ west: 37.6, south: 55.74, east: 37.62, north: 55.76 });
+
+      expect(large.center.lat).toBeCloseTo(55.735);
+      expect(large.center.lon).toBeCloseTo(37.6);
+      expect(small.zoom).toBeGreaterThan(large.zoom);
+    });
+  });
+
+  describe('isTileCapped', () => {
+    it('should flag tiles that reach the result cap', () => {
+      const items = Array.from({ length: 3 }, (_, i) => ({
+        firmId: String(i),
+        url: '',
+        name: '',
+        container: '',
+      }));
+
+      expect(isTileCapped({ items, search: {} }, 3)).toBe(true);
+      expect(isTileCapped({ items, search: {} }, 4)).toBe(false);
+    });
+
+    it('should flag tiles that end below the reported total', () => {
+      const items = Array.from({ length: 3 }, (_, i) => ({
+        firmId: String(i),
+        url: '',
+        name: '',
+        container: '',
+      }));
+
+      expect(isTileCapped({ items, search: { reportedTotal: 250 } }, 200)).toBe(true);
+      expect(isTileCapped({ items, search: { reportedTotal: 3 } }, 200)).toBe(false);
+    });
+
+    it('should not split tiles only a few repeated cards short of the reported total', () => {
+      const items = Array.from({ length: 3 }, (_, i) => ({
+        firmId: String(i),
+        url: '',
+        name: '',
+        container: '',
+      }));
+
+      expect(isTileCapped({ items, search: { reportedTotal: 5 } }, 200)).toBe(false);
+      expect(
+        isTileCapped({ items, search: { pagesVisited: DEFAULT_LIMITS.maxSearchPages } }, 200),
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildAuthorUrl,
+  buildBranchesUrl,
+  buildFirmUrl,
+  buildPhotosUrl,
+  buildReviewsUrl,
+  buildRubricUrl,
+  buildSearchUrl,
+  firmLinkSelector,
+} from '../src/scraper/urls.js';
+
+describe('urls', () => {
+  describe('buildFirmUrl', () => {
+    it('should default to moscow', () => {
+      expect(buildFirmUrl('70000001044609041')).toBe(
+        'https://2gis.ru/moscow/firm/70000001044609041',
+      );
+    });
+
+    it('should use the given city', () => {
+      expect(buildFirmUrl('123', 'spb')).toBe('https://2gis.ru/spb/firm/123');
+    });
+
+    it('should use the given domain', () => {
+      expect(buildFirmUrl('123', 'almaty', '2gis.kz')).toBe('https://2gis.kz/almaty/firm/123');
+    });
+  });
+
+  describe('buildAuthorUrl', () => {
+    it('should point to the reviewer profile', () => {
+      expect(buildAuthorUrl('a1b2c3', 'almaty', '2gis.kz')).toBe(
+        'https://2gis.kz/almaty/user/a1b2c3',
+      );
+    });
+  });
+
+  describe('buildBranchesUrl', () => {
+    it('should point to the chain branch listing with pages', () => {
+      expect(buildBranchesUrl('70000001018048364', 'spb')).toBe(
+        'https://2gis.ru/spb/branches/70000001018048364',
+      );
+      expect(buildBranchesUrl('70000001018048364', 'almaty', '2gis.kz', 3)).toBe(
+        'https://2gis.kz/almaty/branches/70000001018048364/page/3',
+      );
+    });
+  });
+
+  describe('buildRubricUrl', () => {
+    it('should point to the rubric listing with pages', () => {
+      expect(buildRubricUrl('164')).toBe('https://2gis.ru/moscow/rubricId/164');
+      expect(buildRubricUrl('164', 'dubai', '2gis.ae', 2)).toBe(
+        'https://2gis.ae/dubai/rubricId/164/page/2',
+      );
+    });
+  });
+
+  describe('buildPhotosUrl', () => {
+    it('should point to the photos tab', () => {
+      expect(buildPhotosUrl('123', 'kazan')).toBe('https://2gis.ru/kazan/firm/123/tab/photos');
+    });
+  });
+
+  describe('buildReviewsUrl', () => {
+    it('should point to the reviews tab', () => {
+      expect(buildReviewsUrl('123', 'kazan')).toBe('https://2gis.ru/kazan/firm/123/tab/reviews');
+    });
+  });
+
+  describe('buildSearchUrl', () => {
+    it('should encode the query', () => {
+      expect(buildSearchUrl('кальян бар', 'novosibirsk')).toBe(
+        `https://2gis.ru/novosibirsk/search/${encodeURIComponent('кальян бар')}`,
+      );
+    });
+  });
+
+  describe('buildSearchUrl filters', () => {
+    it('should add the filters segment before the page', () => {
+      expect(
+        buildSearchUrl('cafe', 'moscow', '2gis.ru', {
+          page: 2,
+          filters: { openNow: true, minRating: 4.5, sort: 'rating', attributes: ['wifi'] },
+        }),
+      ).toBe(
+        'https://2gis.ru/moscow/search/cafe/filters/sort=rating;open_now;rating=4.5;wifi/page/2',
+      );
+    });
+
+    it('should center the map on the point for distance sorting', () => {
+      expect(
+        buildSearchUrl('cafe', 'moscow', '2gis.ru', {
+          filters: { sort: 'distance', near: { lon: 37.6173, lat: 55.7558 } },
+        }),
+      ).toBe(
+        'https://2gis.ru/moscow/search/cafe/filters/sort=distance?m=37.617300%2C55.755800%2F16',
+      );
+    });
+
+    it('should leave the default relevance sort out', () => {
+      expect(buildSearchUrl('cafe', 'moscow', '2gis.ru', { filters: { sort: 'relevance' } })).toBe(
+        'https://2gis.ru/moscow/search/cafe',
+      );
+    });
+  });
+
+  describe('buildSearchUrl pagination', () => {
+    it('should omit page segment for the first page', () => {
+      expect(buildSearchUrl('cafe', 'moscow', '2gis.ru', { page: 1 })).toBe(
+        'https://2gis.ru/moscow/search/cafe',
+      );
+    });
+
+    it('should append page segment for later pages', () => {
+      expect(buildSearchUrl('cafe', 'moscow', '2gis.ru', { page: 3 })).toBe(
+        'https://2gis.ru/moscow/search/cafe/page/3',
+      );
+    });
+
+    it('should add map viewport parameter', () => {
+      const url = buildSearchUrl('cafe', 'moscow', '2gis.ru', {
+        page: 2,
+        viewport: { center: { lat: 55.75, lon: 37.62 }, zoom: 14 },
+      });
+      expect(url).toBe(
+        `https://2gis.ru/moscow/search/cafe/page/2?m=${encodeURIComponent('37.620000,55.750000/14')}`,
+      );
+    });
+  });
+
+  describe('firmLinkSelector', () => {
+    it('should scope firm links to the city', () => {
+      expect(firmLinkSelector('spb')).toBe('a[href*="/spb/firm/"]');
+    });
+  });
+});